@@ -0,0 +1,322 @@
+'use client';
+
+import { useState } from 'react';
+import { isAddress, ZeroAddress } from 'ethers';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { useOracleAdmin } from '@/hooks/useOracle';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import AddressDisplay from '@/components/AddressDisplay';
+import { formatEther, getOracleContract } from '@/lib/web3';
+import { formatDate, parseContractError } from '@/lib/utils';
+
+export default function OracleAdminPage() {
+  const { account, isConnected, connect } = useWeb3();
+  const { state, isLoading, error, refresh } = useOracleAdmin('coston2');
+
+  const [newAttestor, setNewAttestor] = useState('');
+  const [threshold, setThreshold] = useState('');
+  const [newOwner, setNewOwner] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  if (!isConnected) {
+    return (
+      <div className="text-center py-16">
+        <div className="text-6xl mb-4">🔒</div>
+        <h2 className="text-2xl font-bold mb-4">Connect Your Wallet</h2>
+        <p className="text-neutral-400 mb-6">Connect your wallet to view the oracle attestor set</p>
+        <button
+          onClick={() => connect()}
+          className="px-8 py-3 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20"
+        >
+          Connect Wallet
+        </button>
+      </div>
+    );
+  }
+
+  const isOwner = !!state && account?.toLowerCase() === state.owner.toLowerCase();
+  const isPendingOwner = !!state && account?.toLowerCase() === state.pendingOwner.toLowerCase();
+  const timelockEnabled = !!state && state.timelockDelay > 0;
+
+  const runOracleAction = async (action: (oracle: any) => Promise<any>, failureMessage: string) => {
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const oracle = await getOracleContract('coston2');
+      const tx = await action(oracle);
+      await tx.wait();
+      await refresh();
+    } catch (err: any) {
+      console.error(failureMessage, err);
+      setActionError(parseContractError(err, failureMessage));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Timelocked owner functions are queued instead of called while the timelock is enabled
+  const runOwnerAction = async (method: string, args: any[], failureMessage: string) => {
+    await runOracleAction(
+      oracle => timelockEnabled
+        ? oracle.queueAction(oracle.interface.encodeFunctionData(method, args))
+        : oracle[method](...args),
+      failureMessage
+    );
+  };
+
+  const handleAddAttestor = async () => {
+    if (!isAddress(newAttestor)) {
+      setActionError('Enter a valid attestor address');
+      return;
+    }
+    await runOwnerAction('addAttestor', [newAttestor], 'Failed to add attestor');
+    setNewAttestor('');
+  };
+
+  const handleRemoveAttestor = async (attestor: string) => {
+    await runOwnerAction('removeAttestor', [attestor], 'Failed to remove attestor');
+  };
+
+  const handleSetThreshold = async () => {
+    const value = parseInt(threshold);
+    if (isNaN(value) || value < 0) {
+      setActionError('Enter a valid quorum threshold');
+      return;
+    }
+    await runOwnerAction('setQuorumThreshold', [value], 'Failed to update quorum threshold');
+    setThreshold('');
+  };
+
+  const handleTransferOwnership = async () => {
+    if (!isAddress(newOwner)) {
+      setActionError('Enter a valid owner address');
+      return;
+    }
+    await runOwnerAction('transferOwnership', [newOwner], 'Failed to start ownership transfer');
+    setNewOwner('');
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto animate-fade-in-up">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-4xl font-bold">Oracle Admin</h1>
+        <button
+          onClick={refresh}
+          className="px-4 py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20"
+        >
+          🔄 Refresh
+        </button>
+      </div>
+
+      {(error || actionError) && (
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 mb-6">
+          {actionError || error}
+        </div>
+      )}
+
+      {isLoading || !state ? (
+        <LoadingSpinner size="lg" />
+      ) : (
+        <div className="space-y-6">
+          {/* Quorum Settings */}
+          <div className="p-6 bg-neutral-800/50 border border-neutral-700 rounded-xl">
+            <h2 className="text-xl font-bold mb-4">Quorum Settings</h2>
+            <div className="grid md:grid-cols-3 gap-4 mb-4">
+              <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg">
+                <div className="text-neutral-400 text-sm">Mode</div>
+                <div className="text-lg font-semibold">
+                  {state.quorumThreshold > 1
+                    ? `${state.quorumThreshold} of ${state.attestorCount} attestors`
+                    : 'Single attestor'}
+                </div>
+              </div>
+              <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg">
+                <div className="text-neutral-400 text-sm">Challenge Period</div>
+                <div className="text-lg font-semibold">{Math.round(state.challengePeriod / 60)} minutes</div>
+              </div>
+              <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg">
+                <div className="text-neutral-400 text-sm">Dispute Bond</div>
+                <div className="text-lg font-semibold">{formatEther(state.disputeBond)} FLR</div>
+              </div>
+            </div>
+
+            {isOwner && (
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  max={state.attestorCount}
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  placeholder={`Quorum threshold (0-${state.attestorCount})`}
+                  className="flex-1 px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                />
+                <button
+                  onClick={handleSetThreshold}
+                  disabled={isProcessing}
+                  className="px-6 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50"
+                >
+                  Update Threshold
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Attestor Set */}
+          <div className="p-6 bg-neutral-800/50 border border-neutral-700 rounded-xl">
+            <h2 className="text-xl font-bold mb-4">Attestors ({state.attestors.length})</h2>
+            <div className="space-y-3 mb-4">
+              {state.attestors.map((attestor) => (
+                <div
+                  key={attestor}
+                  className="p-3 bg-neutral-900/50 border border-neutral-700 rounded-lg flex justify-between items-center"
+                >
+                  <div className="flex items-center gap-3">
+                    <AddressDisplay address={attestor} chars={6} />
+                    {attestor === state.owner.toLowerCase() && (
+                      <span className="px-2 py-0.5 rounded text-xs font-semibold bg-blue-500/20 text-blue-300 border border-white/20">
+                        Owner
+                      </span>
+                    )}
+                  </div>
+                  {isOwner && (
+                    <button
+                      onClick={() => handleRemoveAttestor(attestor)}
+                      disabled={isProcessing}
+                      className="px-3 py-1.5 text-white/60 hover:text-white text-sm bg-white/5 backdrop-blur-xl border border-white/10 rounded-full transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isOwner && (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newAttestor}
+                  onChange={(e) => setNewAttestor(e.target.value)}
+                  placeholder="0x... attestor address"
+                  className="flex-1 px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                />
+                <button
+                  onClick={handleAddAttestor}
+                  disabled={isProcessing}
+                  className="px-6 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50"
+                >
+                  Add Attestor
+                </button>
+              </div>
+            )}
+
+            {!isOwner && (
+              <div className="text-xs text-neutral-400">
+                Only the oracle owner can change the attestor set.
+              </div>
+            )}
+          </div>
+
+          {/* Ownership & Timelock */}
+          <div className="p-6 bg-neutral-800/50 border border-neutral-700 rounded-xl">
+            <h2 className="text-xl font-bold mb-4">Ownership & Timelock</h2>
+            <div className="grid md:grid-cols-3 gap-4 mb-4">
+              <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg">
+                <div className="text-neutral-400 text-sm mb-1">Owner</div>
+                <AddressDisplay address={state.owner} />
+              </div>
+              <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg">
+                <div className="text-neutral-400 text-sm mb-1">Pending Owner</div>
+                {state.pendingOwner !== ZeroAddress ? (
+                  <AddressDisplay address={state.pendingOwner} />
+                ) : (
+                  <div className="text-lg font-semibold">None</div>
+                )}
+              </div>
+              <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg">
+                <div className="text-neutral-400 text-sm">Action Timelock</div>
+                <div className="text-lg font-semibold">
+                  {timelockEnabled ? `${Math.round(state.timelockDelay / 3600)} hours` : 'Disabled'}
+                </div>
+              </div>
+            </div>
+
+            {isPendingOwner && (
+              <button
+                onClick={() => runOracleAction(oracle => oracle.acceptOwnership(), 'Failed to accept ownership')}
+                disabled={isProcessing}
+                className="w-full mb-4 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50"
+              >
+                Accept Ownership
+              </button>
+            )}
+
+            {isOwner && (
+              <div className="flex gap-2 mb-4">
+                <input
+                  type="text"
+                  value={newOwner}
+                  onChange={(e) => setNewOwner(e.target.value)}
+                  placeholder="0x... new owner address"
+                  className="flex-1 px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                />
+                <button
+                  onClick={handleTransferOwnership}
+                  disabled={isProcessing}
+                  className="px-6 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50"
+                >
+                  Transfer Ownership
+                </button>
+              </div>
+            )}
+
+            <h3 className="text-lg font-semibold mb-3">Queued Owner Actions ({state.queuedActions.length})</h3>
+            {state.queuedActions.length === 0 ? (
+              <div className="text-sm text-neutral-400">No privileged changes are pending.</div>
+            ) : (
+              <div className="space-y-3">
+                {state.queuedActions.map((action) => {
+                  const isReady = action.eta * 1000 <= Date.now();
+                  return (
+                    <div
+                      key={action.actionId}
+                      className="p-3 bg-neutral-900/50 border border-neutral-700 rounded-lg flex justify-between items-center gap-4"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-mono text-sm break-all">{action.description}</div>
+                        <div className={`text-xs mt-1 ${isReady ? 'text-green-400' : 'text-yellow-500'}`}>
+                          {isReady ? 'Executable since' : 'Executable from'} {formatDate(action.eta)}
+                        </div>
+                      </div>
+                      {isOwner && (
+                        <div className="flex gap-2 shrink-0">
+                          <button
+                            onClick={() => runOracleAction(oracle => oracle.executeAction(action.data, action.eta), 'Failed to execute action')}
+                            disabled={isProcessing || !isReady}
+                            className="px-3 py-1.5 text-sm bg-white/10 backdrop-blur-xl border border-white/20 rounded-full transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50"
+                          >
+                            Execute
+                          </button>
+                          <button
+                            onClick={() => runOracleAction(oracle => oracle.cancelAction(action.data, action.eta), 'Failed to cancel action')}
+                            disabled={isProcessing}
+                            className="px-3 py-1.5 text-white/60 hover:text-white text-sm bg-white/5 backdrop-blur-xl border border-white/10 rounded-full transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -108,7 +108,7 @@ export async function POST(request: NextRequest) {
       message: 'Resolution data fetched. Submit to oracle using setOutcomesBatch() for testing, or submitOutcome() with FDC proof for production.',
       instructions: {
         testing: 'Call oracle.setOutcomesBatch(conditionIds, outcomes) as owner',
-        production: 'Call oracle.submitOutcome(conditionId, outcome, attestationData, merkleProof) as attestor',
+        production: 'Call oracle.submitOutcome(conditionId, attestationData, merkleProof) as attestor',
       },
     });
 
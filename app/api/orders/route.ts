@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import {
+  ABIS,
+  CHAIN_CONFIG,
+  CONTRACT_ADDRESSES,
+  ChainName,
+  NATIVE_COLLATERAL,
+  ParlayOrder,
+  PARLAY_ORDER_TYPES,
+  SignedParlayOrder,
+  getParlayOrderDomain,
+} from '@/lib/contracts';
+import { addOrder, readOrders, removeOrders } from '@/lib/order-store';
+
+// Relay limits on submitted orders; the contract has no leg cap, but the relay stores and serves every order
+const MAX_ORDER_BODY_BYTES = 32 * 1024;
+const MAX_ORDER_LEGS = 20;
+
+function validateNetwork(network: string | null): ChainName {
+  return network === 'flare' ? 'flare' : 'coston2';
+}
+
+/**
+ * GET /api/orders
+ *
+ * Lists signed parlay orders that can still be filled.
+ * Expired orders and orders whose nonce was used or cancelled on-chain are pruned.
+ * Orders whose maker no longer has the balance or allowance to cover the stake are hidden but kept,
+ * since the maker can top up later.
+ *
+ * Query parameters:
+ * - network: 'coston2' | 'flare' (default: coston2)
+ * - maker: Only return orders from this maker
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const network = validateNetwork(searchParams.get('network'));
+    const maker = searchParams.get('maker')?.toLowerCase();
+
+    const now = Math.floor(Date.now() / 1000);
+    const orders = (await readOrders()).filter((stored) => stored.network === network);
+
+    const provider = new ethers.JsonRpcProvider(CHAIN_CONFIG[network].rpcUrl);
+    const market = new ethers.Contract(CONTRACT_ADDRESSES[network].ParlayMarket, ABIS.ParlayMarket, provider);
+
+    const validity = await Promise.all(
+      orders.map(async (stored) => {
+        if (stored.order.expiry <= now) return false;
+        try {
+          return await market.isNonceValid(stored.order.maker, stored.order.nonce);
+        } catch (error) {
+          // Keep the order if the chain can't be reached; the fill will fail on-chain if it is stale
+          console.warn(`Could not check nonce for order ${stored.orderHash}:`, error);
+          return true;
+        }
+      })
+    );
+
+    const stale = orders.filter((_, idx) => !validity[idx]).map((stored) => stored.orderHash);
+    await removeOrders(stale);
+
+    const listed = orders.filter((stored, idx) =>
+      validity[idx] && (!maker || stored.order.maker.toLowerCase() === maker)
+    );
+
+    // fillSignedOrder pulls the maker stake and bounty from the maker, so look up each maker's funds once per token
+    const funds = new Map<string, Promise<{ balance: bigint; allowance: bigint } | null>>();
+    const getFunds = (token: string, owner: string) => {
+      const key = `${token.toLowerCase()}:${owner.toLowerCase()}`;
+      if (!funds.has(key)) {
+        const erc20 = new ethers.Contract(token, ABIS.ERC20, provider);
+        funds.set(key, Promise.all([erc20.balanceOf(owner), erc20.allowance(owner, CONTRACT_ADDRESSES[network].ParlayMarket)])
+          .then(([balance, allowance]) => ({ balance, allowance }))
+          .catch((error) => {
+            // As with nonces, keep the order if the chain can't be reached
+            console.warn(`Could not check ${owner}'s funds in ${token}:`, error);
+            return null;
+          }));
+      }
+      return funds.get(key)!;
+    };
+
+    const funded = await Promise.all(
+      listed.map(async (stored) => {
+        const makerFunds = await getFunds(stored.order.collateralToken, stored.order.maker);
+        if (!makerFunds) return true;
+        const required = BigInt(stored.order.makerStake) + BigInt(stored.order.resolverBounty);
+        return makerFunds.balance >= required && makerFunds.allowance >= required;
+      })
+    );
+
+    const open = listed.filter((_, idx) => funded[idx]);
+
+    return NextResponse.json({ orders: open });
+  } catch (error) {
+    console.error('Error listing signed orders:', error);
+    return NextResponse.json(
+      { error: 'Failed to list orders', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/orders
+ * Body: { order: ParlayOrder, signature: string, network?: 'coston2' | 'flare' }
+ *
+ * Verifies the maker's EIP-712 signature and stores the order for takers to browse.
+ * Bodies over MAX_ORDER_BODY_BYTES are rejected with 413, and orders over MAX_ORDER_LEGS legs with 400.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tooLarge = () => NextResponse.json({ error: `Order is larger than ${MAX_ORDER_BODY_BYTES} bytes` }, { status: 413 });
+    if (Number(request.headers.get('content-length') ?? 0) > MAX_ORDER_BODY_BYTES) {
+      return tooLarge();
+    }
+    // Content-Length is optional, so measure the body as well
+    const raw = await request.text();
+    if (Buffer.byteLength(raw) > MAX_ORDER_BODY_BYTES) {
+      return tooLarge();
+    }
+
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+    }
+    const { order, signature } = body as { order: ParlayOrder; signature: string };
+    const network = validateNetwork(body.network);
+
+    if (!order || typeof signature !== 'string') {
+      return NextResponse.json({ error: 'order and signature are required' }, { status: 400 });
+    }
+    if (!order.conditionIds?.length || order.conditionIds.length !== order.requiredOutcomes?.length) {
+      return NextResponse.json({ error: 'Order legs are incomplete' }, { status: 400 });
+    }
+    if (order.conditionIds.length > MAX_ORDER_LEGS) {
+      return NextResponse.json({ error: `Orders can have at most ${MAX_ORDER_LEGS} legs` }, { status: 400 });
+    }
+    if (!(order.minCorrectLegs > 0 && order.minCorrectLegs <= order.conditionIds.length)) {
+      return NextResponse.json({ error: 'Invalid number of legs required' }, { status: 400 });
+    }
+    if (order.collateralToken === NATIVE_COLLATERAL) {
+      return NextResponse.json({ error: 'Signed orders need ERC-20 collateral' }, { status: 400 });
+    }
+    if (order.expiry <= Math.floor(Date.now() / 1000)) {
+      return NextResponse.json({ error: 'Order has expired' }, { status: 400 });
+    }
+    if (!(order.resolutionDeadline > order.expiry)) {
+      return NextResponse.json({ error: 'Resolution deadline must be after expiry' }, { status: 400 });
+    }
+
+    const domain = getParlayOrderDomain(network);
+    let signer: string;
+    try {
+      signer = ethers.verifyTypedData(domain, PARLAY_ORDER_TYPES, order, signature);
+    } catch {
+      return NextResponse.json({ error: 'Malformed order or signature' }, { status: 400 });
+    }
+    if (signer.toLowerCase() !== order.maker.toLowerCase()) {
+      return NextResponse.json({ error: 'Signature does not match maker' }, { status: 400 });
+    }
+
+    const signed: SignedParlayOrder = {
+      order,
+      signature,
+      orderHash: ethers.TypedDataEncoder.hash(domain, PARLAY_ORDER_TYPES, order),
+      network,
+      createdAt: Math.floor(Date.now() / 1000),
+    };
+
+    if (!(await addOrder(signed))) {
+      return NextResponse.json({ error: 'Order already submitted' }, { status: 409 });
+    }
+
+    return NextResponse.json({ orderHash: signed.orderHash });
+  } catch (error) {
+    console.error('Error storing signed order:', error);
+    return NextResponse.json(
+      { error: 'Failed to store order', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,15 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { getAddress, isAddress, ZeroAddress, ZeroHash } from 'ethers';
 import { useWeb3 } from '@/hooks/useWeb3';
-import { getParlayMarketContract, parseEther } from '@/lib/web3';
+import { useCollateralTokens } from '@/hooks/useCollateralTokens';
+import { useProtocolFee } from '@/hooks/useProtocolFee';
+import { getParlayMarketContract, parseUnits, ensureCollateralAllowance, increaseCollateralAllowance, signParlayOrder } from '@/lib/web3';
+import { submitSignedOrder } from '@/lib/order-relay';
+import { NATIVE_COLLATERAL, MAX_ROUND_ROBIN_PARLAYS, ParlayOrder, VoidPolicy, CancelMode, getVoidPolicyString, getCancelModeString } from '@/lib/contracts';
+import { countCombinations, parseContractError } from '@/lib/utils';
+import { getAllowlistRoot } from '@/lib/allowlist';
 import { 
   fetchSimplifiedMarkets, 
   SimplifiedMarket,
@@ -11,28 +18,69 @@ import {
   formatMarketEndDate
 } from '@/lib/polymarket';
 
+// standard: every leg must hit; kOfN: at least k legs must hit; roundRobin: one parlay per k-leg combination
+type ParlayType = 'standard' | 'kOfN' | 'roundRobin';
+
+// public: anyone can fill; taker: one named address; allowlist: any address on a Merkle allowlist
+type OfferPrivacy = 'public' | 'taker' | 'allowlist';
+
 interface MarketLeg {
   conditionId: string;
   requiredOutcome: number;
   description: string;
   name: string;
   image?: string;
+  probability: string; // Implied chance (%) of this leg hitting, used to reprice if another leg is voided
+  fillBy: string;      // Optional datetime-local cutoff after which the offer can't be filled
+  endDate?: string;    // Polymarket end date, when the leg was picked from the market browser
 }
 
 export default function CreateParlayPage() {
   const router = useRouter();
-  const { isConnected, connect } = useWeb3();
+  const { account, isConnected, connect } = useWeb3();
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const [parlayName, setParlayName] = useState('');
   const [legs, setLegs] = useState<MarketLeg[]>([
-    { conditionId: '', requiredOutcome: 1, description: '', name: '', image: undefined },
+    { conditionId: '', requiredOutcome: 1, description: '', name: '', image: undefined, probability: '', fillBy: '' },
   ]);
   const [makerStake, setMakerStake] = useState('');
   const [takerStake, setTakerStake] = useState('');
+  const [resolverBounty, setResolverBounty] = useState('');
   const [makerIsYes, setMakerIsYes] = useState(true);
   const [expiryDays, setExpiryDays] = useState('7');
+  const [resolutionDays, setResolutionDays] = useState('90');
+  const [voidPolicy, setVoidPolicy] = useState<VoidPolicy>(VoidPolicy.RefundAll);
+  const [cancelMode, setCancelMode] = useState<CancelMode>(CancelMode.Anytime);
+  const [parlayType, setParlayType] = useState<ParlayType>('standard');
+  const [minCorrectLegs, setMinCorrectLegs] = useState('2');
+  const [collateralToken, setCollateralToken] = useState(NATIVE_COLLATERAL);
+  const [signOffChain, setSignOffChain] = useState(false);
+  const [privacy, setPrivacy] = useState<OfferPrivacy>('public');
+  const [privateTaker, setPrivateTaker] = useState('');
+  const [allowlistInput, setAllowlistInput] = useState('');
+  const [privateLink, setPrivateLink] = useState<string | null>(null);
+  const { tokens: collateralTokens } = useCollateralTokens('coston2');
+  const { feeBps } = useProtocolFee('coston2');
+  const collateral = collateralTokens.find(token => token.address === collateralToken)
+    || { address: NATIVE_COLLATERAL, symbol: 'FLR', decimals: 18 };
+  const legsPerParlay = parseInt(minCorrectLegs) || 0;
+  const roundRobinCount = parlayType === 'roundRobin' ? countCombinations(legs.length, legsPerParlay) : 1;
+  // Round robins spawn several parlays in one transaction, so they can't be signed as a single order
+  const canSignOffChain = collateral.address !== NATIVE_COLLATERAL && parlayType !== 'roundRobin';
+  // Taker restrictions are set by createParlay, so round robins and signed orders are always public
+  const canMakePrivate = parlayType !== 'roundRobin' && !(signOffChain && canSignOffChain);
+  const offerPrivacy: OfferPrivacy = canMakePrivate ? privacy : 'public';
+  const allowlistAddresses = allowlistInput.split(/[\s,]+/).filter(Boolean);
+  const expiryMs = Date.now() + (parseInt(expiryDays) || 0) * 24 * 60 * 60 * 1000;
+  // Markets that end while the offer is still open could be filled after their outcome is known
+  const endsBeforeExpiry = (leg: MarketLeg) =>
+    !!leg.endDate && new Date(leg.endDate).getTime() < expiryMs && !leg.fillBy;
+  const resolutionDeadlineMs = Date.now() + (parseInt(resolutionDays) || 0) * 24 * 60 * 60 * 1000;
+  // Markets that end after the resolution deadline leave the parlay open to a stale refund before they settle
+  const endsAfterResolutionDeadline = (leg: MarketLeg) =>
+    !!leg.endDate && new Date(leg.endDate).getTime() > resolutionDeadlineMs;
 
   // Polymarket integration state
   const [markets, setMarkets] = useState<SimplifiedMarket[]>([]);
@@ -74,6 +122,9 @@ export default function CreateParlayPage() {
       description: market.question,
       name: market.question,
       image: market.image,
+      probability: ((outcome === 'yes' ? market.yesPrice : market.noPrice) * 100).toFixed(0),
+      fillBy: '',
+      endDate: market.endDate,
     };
     
     // If leg 1 (index 0) is empty, overwrite it instead of adding a new leg
@@ -89,7 +140,7 @@ export default function CreateParlayPage() {
   };
 
   const addLeg = () => {
-    setLegs([...legs, { conditionId: '', requiredOutcome: 1, description: '', name: '', image: undefined }]);
+    setLegs([...legs, { conditionId: '', requiredOutcome: 1, description: '', name: '', image: undefined, probability: '', fillBy: '' }]);
   };
 
   const removeLeg = (index: number) => {
@@ -124,40 +175,183 @@ export default function CreateParlayPage() {
       if (legs.some(leg => !leg.name.trim())) {
         throw new Error('All leg names must be filled');
       }
+      if (parlayType !== 'standard' && !(legsPerParlay > 0 && legsPerParlay < legs.length)) {
+        throw new Error(`Legs required must be between 1 and ${legs.length - 1}`);
+      }
+      if (parlayType === 'roundRobin' && roundRobinCount > MAX_ROUND_ROBIN_PARLAYS) {
+        throw new Error(`A round robin can spawn at most ${MAX_ROUND_ROBIN_PARLAYS} parlays`);
+      }
+      if (parlayType === 'kOfN' && voidPolicy === VoidPolicy.DropLegReprice) {
+        throw new Error('Repricing void legs needs every leg to hit; pick another void policy for k of n parlays');
+      }
+      if (voidPolicy === VoidPolicy.DropLegReprice && legs.some(leg => {
+        const probability = parseFloat(leg.probability);
+        return !(probability > 0 && probability <= 100);
+      })) {
+        throw new Error('Every leg needs a probability between 0 and 100% to reprice void legs');
+      }
+      if (legs.some(leg => leg.fillBy && new Date(leg.fillBy).getTime() <= Date.now())) {
+        throw new Error('Fill-by times must be in the future');
+      }
+      if (!((parseInt(resolutionDays) || 0) > (parseInt(expiryDays) || 0))) {
+        throw new Error('Resolution deadline must be after the expiry');
+      }
       if (!makerStake || parseFloat(makerStake) <= 0) {
         throw new Error('Maker stake must be positive');
       }
       if (!takerStake || parseFloat(takerStake) <= 0) {
         throw new Error('Taker stake must be positive');
       }
+      if (resolverBounty && !(parseFloat(resolverBounty) >= 0)) {
+        throw new Error('Resolver bounty cannot be negative');
+      }
+      if (offerPrivacy === 'taker' && !isAddress(privateTaker.trim())) {
+        throw new Error('Enter a valid taker address for the private offer');
+      }
+      if (offerPrivacy === 'allowlist' && (allowlistAddresses.length === 0 || !allowlistAddresses.every(isAddress))) {
+        throw new Error('Enter one or more valid taker addresses for the allowlist');
+      }
+
+      const makerAmount = parseUnits(makerStake, collateral.decimals);
+      const takerAmount = parseUnits(takerStake, collateral.decimals);
+      const bountyAmount = resolverBounty ? parseUnits(resolverBounty, collateral.decimals) : BigInt(0);
+      const isNative = collateral.address === NATIVE_COLLATERAL;
+
+      const totalMakerAmount = (makerAmount + bountyAmount) * BigInt(roundRobinCount);
 
-      const contract = await getParlayMarketContract('coston2');
-      
       const conditionIds = legs.map(leg => leg.conditionId);
       const requiredOutcomes = legs.map(leg => leg.requiredOutcome);
       const legNames = legs.map(leg => leg.name.trim() || leg.description.trim());
       const imageUrls = legs.map(leg => leg.image || '');
       const expiryTimestamp = Math.floor(Date.now() / 1000) + parseInt(expiryDays) * 24 * 60 * 60;
+      const resolutionDeadline = Math.floor(Date.now() / 1000) + parseInt(resolutionDays) * 24 * 60 * 60;
+      const legProbabilitiesBps = voidPolicy === VoidPolicy.DropLegReprice
+        ? legs.map(leg => Math.round(parseFloat(leg.probability) * 100))
+        : [];
+      // Send no cutoffs at all unless at least one leg has one
+      const legFillDeadlines = legs.some(leg => leg.fillBy)
+        ? legs.map(leg => leg.fillBy ? Math.floor(new Date(leg.fillBy).getTime() / 1000) : 0)
+        : [];
+
+      const requiredLegs = parlayType === 'kOfN' ? legsPerParlay : legs.length;
+
+      if (signOffChain && canSignOffChain) {
+        // The maker stake is pulled when a taker fills the order, and other open orders may be counting on the
+        // current allowance, so add this order's stake to it
+        await increaseCollateralAllowance(collateral.address, totalMakerAmount, 'coston2');
+
+        const order: ParlayOrder = {
+          maker: account!,
+          name: parlayName.trim(),
+          conditionIds,
+          requiredOutcomes,
+          legNames,
+          imageUrls,
+          collateralToken: collateral.address,
+          makerStake: makerAmount.toString(),
+          takerStake: takerAmount.toString(),
+          expiry: expiryTimestamp,
+          resolutionDeadline,
+          resolverBounty: bountyAmount.toString(),
+          makerIsYes,
+          minCorrectLegs: requiredLegs,
+          voidPolicy,
+          legProbabilitiesBps,
+          legFillDeadlines,
+          // Timestamp nonces keep each order unique and let cancelAllOrders void older ones
+          nonce: Date.now().toString(),
+        };
+        const signature = await signParlayOrder(order, 'coston2');
+        await submitSignedOrder(order, signature, 'coston2');
+
+        router.push('/orders');
+        return;
+      }
+
+      // ERC-20 stakes are pulled by the market, so approve it first if needed
+      await ensureCollateralAllowance(collateral.address, totalMakerAmount, 'coston2');
+
+      const contract = await getParlayMarketContract('coston2');
 
-      const tx = await contract.createParlay(
-        parlayName.trim(),
-        conditionIds,
-        requiredOutcomes,
-        legNames,
-        imageUrls,
-        parseEther(takerStake),
-        expiryTimestamp,
-        makerIsYes,
-        { value: parseEther(makerStake) }
-      );
-
-      await tx.wait();
+      let tx;
+      if (parlayType === 'roundRobin') {
+        // Stakes are per spawned parlay; the maker deposits one maker stake (plus bounty) per combination
+        tx = await contract.createRoundRobin(
+          parlayName.trim(),
+          conditionIds,
+          requiredOutcomes,
+          legNames,
+          imageUrls,
+          collateral.address,
+          legsPerParlay,
+          makerAmount,
+          takerAmount,
+          expiryTimestamp,
+          resolutionDeadline,
+          bountyAmount,
+          makerIsYes,
+          voidPolicy,
+          legProbabilitiesBps,
+          legFillDeadlines,
+          cancelMode,
+          { value: isNative ? totalMakerAmount : BigInt(0) }
+        );
+      } else {
+        tx = await contract.createParlay(
+          parlayName.trim(),
+          conditionIds,
+          requiredOutcomes,
+          legNames,
+          imageUrls,
+          collateral.address,
+          makerAmount,
+          takerAmount,
+          expiryTimestamp,
+          resolutionDeadline,
+          bountyAmount,
+          makerIsYes,
+          requiredLegs,
+          voidPolicy,
+          legProbabilitiesBps,
+          legFillDeadlines,
+          offerPrivacy === 'taker' ? getAddress(privateTaker.trim()) : ZeroAddress,
+          offerPrivacy === 'allowlist' ? getAllowlistRoot(allowlistAddresses) : ZeroHash,
+          cancelMode,
+          { value: isNative ? totalMakerAmount : BigInt(0) }
+        );
+      }
+
+      const receipt = await tx.wait();
+
+      // Private offers are hidden from browse, so hand the maker a link to share instead
+      if (offerPrivacy !== 'public') {
+        let parlayId: string | null = null;
+        for (const log of receipt.logs || []) {
+          try {
+            const parsed = contract.interface.parseLog({ topics: log.topics || [], data: log.data || '0x' });
+            if (parsed && parsed.name === 'ParlayCreated') {
+              parlayId = parsed.args.parlayId.toString();
+              break;
+            }
+          } catch {
+            // Not a ParlayMarket event
+          }
+        }
+        if (parlayId !== null) {
+          // Allowlisted takers need the full list to build their Merkle proof
+          const query = offerPrivacy === 'allowlist'
+            ? `?allowlist=${allowlistAddresses.map((address) => getAddress(address)).join(',')}`
+            : '';
+          setPrivateLink(`${window.location.origin}/parlay/${parlayId}${query}`);
+          return;
+        }
+      }
       
       // Redirect to browse page
       router.push('/');
     } catch (err: any) {
       console.error('Error creating parlay:', err);
-      setError(err.message || 'Failed to create parlay');
+      setError(parseContractError(err, 'Failed to create parlay'));
     } finally {
       setIsCreating(false);
     }
@@ -377,6 +571,44 @@ export default function CreateParlayPage() {
                       <option value={1}>YES</option>
                     </select>
                   </div>
+
+                  <div>
+                    <label className="block text-sm text-neutral-400 mb-1">
+                      Fill By (optional)
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={leg.fillBy}
+                      onChange={(e) => updateLeg(index, 'fillBy', e.target.value)}
+                      className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                    />
+                    <div className="text-xs text-neutral-500 mt-1">
+                      Takers can&apos;t fill the offer after this time. Fills are always blocked once a leg resolves.
+                    </div>
+                    {endsBeforeExpiry(leg) && (
+                      <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-yellow-500 text-sm mt-2">
+                        This market ends {new Date(leg.endDate!).toLocaleString()}, before your offer expires. Set a fill-by time or shorten the expiry so a taker can&apos;t fill once the result is known.
+                      </div>
+                    )}
+                  </div>
+
+                  {voidPolicy === VoidPolicy.DropLegReprice && (
+                    <div>
+                      <label className="block text-sm text-neutral-400 mb-1">
+                        Chance of Required Outcome (%)
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        min="1"
+                        max="100"
+                        value={leg.probability}
+                        onChange={(e) => updateLeg(index, 'probability', e.target.value)}
+                        placeholder="50"
+                        className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -403,10 +635,128 @@ export default function CreateParlayPage() {
           <h2 className="text-xl font-bold mb-4">Collateral & Terms</h2>
 
           <div className="space-y-4">
+            <div>
+              <label className="block text-sm text-neutral-400 mb-1">
+                Collateral Token
+              </label>
+              <select
+                value={collateralToken}
+                onChange={(e) => setCollateralToken(e.target.value)}
+                className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+              >
+                {(collateralTokens.length > 0 ? collateralTokens : [collateral]).map((token) => (
+                  <option key={token.address} value={token.address}>
+                    {token.address === NATIVE_COLLATERAL ? 'FLR (native)' : `${token.symbol} (${token.address.slice(0, 6)}...${token.address.slice(-4)})`}
+                  </option>
+                ))}
+              </select>
+              {collateral.address !== NATIVE_COLLATERAL && (
+                <div className="text-xs text-neutral-500 mt-1">
+                  You will be asked to approve {collateral.symbol} before the parlay is created
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className={`flex items-center gap-2 ${!canSignOffChain ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                <input
+                  type="checkbox"
+                  checked={signOffChain && canSignOffChain}
+                  disabled={!canSignOffChain}
+                  onChange={(e) => setSignOffChain(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <span>Gasless signed order</span>
+              </label>
+              <div className="text-xs text-neutral-500 mt-1">
+                {collateral.address === NATIVE_COLLATERAL
+                  ? 'Signed orders need an ERC-20 collateral token'
+                  : parlayType === 'roundRobin'
+                  ? 'Round robins are created on-chain and can\'t be signed as an order'
+                  : 'Sign the offer off-chain instead of escrowing your stake. Your stake stays in your wallet until a taker fills the order.'}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm text-neutral-400 mb-1">
+                Who Can Fill
+              </label>
+              <select
+                value={offerPrivacy}
+                disabled={!canMakePrivate}
+                onChange={(e) => setPrivacy(e.target.value as OfferPrivacy)}
+                className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50 disabled:opacity-50"
+              >
+                <option value="public">Anyone (public offer)</option>
+                <option value="taker">One taker (private offer)</option>
+                <option value="allowlist">An allowlist of takers (private offer)</option>
+              </select>
+              {offerPrivacy === 'taker' && (
+                <input
+                  type="text"
+                  value={privateTaker}
+                  onChange={(e) => setPrivateTaker(e.target.value)}
+                  placeholder="0x... taker address"
+                  className="w-full mt-2 px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50 font-mono text-sm"
+                />
+              )}
+              {offerPrivacy === 'allowlist' && (
+                <textarea
+                  value={allowlistInput}
+                  onChange={(e) => setAllowlistInput(e.target.value)}
+                  placeholder="0x... one taker address per line"
+                  rows={3}
+                  className="w-full mt-2 px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50 font-mono text-sm"
+                />
+              )}
+              <div className="text-xs text-neutral-500 mt-1">
+                {!canMakePrivate
+                  ? 'Round robins and signed orders are always public'
+                  : offerPrivacy === 'public'
+                  ? 'The offer is listed on Browse for anyone to fill'
+                  : 'The offer is hidden from Browse. You get a link to share once it is created.'}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm text-neutral-400 mb-1">
+                Parlay Type
+              </label>
+              <div className="grid md:grid-cols-[2fr_1fr] gap-4">
+                <select
+                  value={parlayType}
+                  onChange={(e) => setParlayType(e.target.value as ParlayType)}
+                  className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                >
+                  <option value="standard">Standard (every leg must hit)</option>
+                  <option value="kOfN">K of N (at least K legs must hit)</option>
+                  <option value="roundRobin">Round robin (one parlay per K-leg combination)</option>
+                </select>
+                {parlayType !== 'standard' && (
+                  <input
+                    type="number"
+                    min="1"
+                    max={Math.max(1, legs.length - 1)}
+                    value={minCorrectLegs}
+                    onChange={(e) => setMinCorrectLegs(e.target.value)}
+                    placeholder="K"
+                    className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                  />
+                )}
+              </div>
+              {parlayType !== 'standard' && (
+                <div className="text-xs text-neutral-500 mt-1">
+                  {parlayType === 'kOfN'
+                    ? `YES wins if at least ${legsPerParlay || 'K'} of ${legs.length} legs hit`
+                    : `Creates ${roundRobinCount} linked parlay${roundRobinCount === 1 ? '' : 's'} of ${legsPerParlay || 'K'} legs each (max ${MAX_ROUND_ROBIN_PARLAYS}); each one is filled and resolved separately`}
+                </div>
+              )}
+            </div>
+
             <div className="grid md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm text-neutral-400 mb-1">
-                  Your Stake (FLR)
+                  Your Stake{parlayType === 'roundRobin' ? ' per Parlay' : ''} ({collateral.symbol})
                 </label>
                 <input
                   type="number"
@@ -420,7 +770,7 @@ export default function CreateParlayPage() {
 
               <div>
                 <label className="block text-sm text-neutral-400 mb-1">
-                  Taker Stake (FLR)
+                  Taker Stake{parlayType === 'roundRobin' ? ' per Parlay' : ''} ({collateral.symbol})
                 </label>
                 <input
                   type="number"
@@ -433,6 +783,23 @@ export default function CreateParlayPage() {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm text-neutral-400 mb-1">
+                Resolver Bounty{parlayType === 'roundRobin' ? ' per Parlay' : ''} ({collateral.symbol}, optional)
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={resolverBounty}
+                onChange={(e) => setResolverBounty(e.target.value)}
+                placeholder="0.0"
+                className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+              />
+              <div className="text-xs text-neutral-500 mt-1">
+                Deposited with your stake and paid to whoever resolves the parlay, so keepers have a reason to settle it. Refunded if the parlay is cancelled unfilled or never resolved.
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm text-neutral-400 mb-1">
                 Your Position
@@ -445,7 +812,7 @@ export default function CreateParlayPage() {
                     onChange={() => setMakerIsYes(true)}
                     className="w-4 h-4"
                   />
-                  <span>YES (All outcomes must match)</span>
+                  <span>YES ({parlayType === 'kOfN' ? `At least ${legsPerParlay || 'K'} must match` : 'All outcomes must match'})</span>
                 </label>
                 <label className="flex items-center gap-2 cursor-pointer">
                   <input
@@ -454,7 +821,7 @@ export default function CreateParlayPage() {
                     onChange={() => setMakerIsYes(false)}
                     className="w-4 h-4"
                   />
-                  <span>NO (At least one fails)</span>
+                  <span>NO ({parlayType === 'kOfN' ? 'Fewer than that match' : 'At least one fails'})</span>
                 </label>
               </div>
             </div>
@@ -470,26 +837,133 @@ export default function CreateParlayPage() {
                 min="1"
                 className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
               />
+              {legs.some(endsBeforeExpiry) && (
+                <div className="text-xs text-yellow-500 mt-1">
+                  {legs.filter(endsBeforeExpiry).length} market{legs.filter(endsBeforeExpiry).length === 1 ? '' : 's'} end before this expiry without a fill-by time
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm text-neutral-400 mb-1">
+                Resolution Deadline (days from now)
+              </label>
+              <input
+                type="number"
+                value={resolutionDays}
+                onChange={(e) => setResolutionDays(e.target.value)}
+                min="2"
+                className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+              />
+              <div className="text-xs text-neutral-500 mt-1">
+                If the parlay is filled but still unresolved after this, either side can refund both stakes.
+              </div>
+              {legs.some(endsAfterResolutionDeadline) && (
+                <div className="text-xs text-yellow-500 mt-1">
+                  {legs.filter(endsAfterResolutionDeadline).length} market{legs.filter(endsAfterResolutionDeadline).length === 1 ? '' : 's'} end after this deadline
+                </div>
+              )}
             </div>
 
+            <div>
+              <label className="block text-sm text-neutral-400 mb-1">
+                If a Leg Resolves INVALID
+              </label>
+              <select
+                value={voidPolicy}
+                onChange={(e) => setVoidPolicy(parseInt(e.target.value) as VoidPolicy)}
+                className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+              >
+                {[VoidPolicy.RefundAll, VoidPolicy.DropLeg, VoidPolicy.DropLegReprice].map((policy) => (
+                  <option key={policy} value={policy}>{getVoidPolicyString(policy)}</option>
+                ))}
+              </select>
+              <div className="text-xs text-neutral-500 mt-1">
+                {voidPolicy === VoidPolicy.RefundAll
+                  ? 'The whole parlay is cancelled and both sides are refunded'
+                  : voidPolicy === VoidPolicy.DropLeg
+                  ? 'The void leg is ignored and the parlay settles on the remaining legs at the original stakes'
+                  : 'The void leg is ignored and the NO stake shrinks by the leg\'s chance of hitting; the difference is refunded to NO'}
+              </div>
+            </div>
+
+            {!(signOffChain && canSignOffChain) && (
+              <div>
+                <label className="block text-sm text-neutral-400 mb-1">
+                  Cancellation
+                </label>
+                <select
+                  value={cancelMode}
+                  onChange={(e) => setCancelMode(parseInt(e.target.value) as CancelMode)}
+                  className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                >
+                  {[CancelMode.Anytime, CancelMode.LockedUntilExpiry].map((mode) => (
+                    <option key={mode} value={mode}>{getCancelModeString(mode)}</option>
+                  ))}
+                </select>
+                <div className="text-xs text-neutral-500 mt-1">
+                  {cancelMode === CancelMode.Anytime
+                    ? 'You can cancel or edit the unfilled part of the offer whenever you like'
+                    : 'You can\'t cancel or edit the offer until it expires, so takers can count on it staying open'}
+                </div>
+              </div>
+            )}
+
             {makerStake && takerStake && (
               <div className="p-4 bg-white/5 border border-white/10 rounded-lg">
-                <div className="text-sm text-neutral-400 mb-1">Total Pot:</div>
+                <div className="text-sm text-neutral-400 mb-1">Total Pot{parlayType === 'roundRobin' ? ' per Parlay' : ''}:</div>
                 <div className="text-2xl font-bold text-white">
-                  {(parseFloat(makerStake) + parseFloat(takerStake)).toFixed(2)} FLR
+                  {(parseFloat(makerStake) + parseFloat(takerStake)).toFixed(2)} {collateral.symbol}
                 </div>
+                {feeBps > 0 && (
+                  <div className="text-sm text-neutral-400 mt-1">
+                    Net payout to winner: {((parseFloat(makerStake) + parseFloat(takerStake)) * (10000 - feeBps) / 10000).toFixed(2)} {collateral.symbol} ({feeBps / 100}% protocol fee)
+                  </div>
+                )}
+                {parlayType === 'roundRobin' && roundRobinCount > 1 && (
+                  <div className="text-sm text-neutral-400 mt-1">
+                    You deposit {((parseFloat(makerStake) + (parseFloat(resolverBounty) || 0)) * roundRobinCount).toFixed(2)} {collateral.symbol} across {roundRobinCount} parlays
+                  </div>
+                )}
               </div>
             )}
           </div>
         </div>
 
+        {privateLink && (
+          <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg mb-6">
+            <div className="font-bold text-green-500 mb-2">Private offer created</div>
+            <div className="text-sm text-neutral-400 mb-3">Share this link with your counterparty so they can fill it:</div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={privateLink}
+                className="flex-1 px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg font-mono text-xs"
+              />
+              <button
+                onClick={() => navigator.clipboard.writeText(privateLink)}
+                className="px-4 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30"
+              >
+                Copy Link
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Create Button */}
         <button
           onClick={handleCreate}
           disabled={isCreating}
           className="w-full py-4 bg-white text-black backdrop-blur-xl border border-white/30 rounded-full font-bold text-lg transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/90 disabled:bg-neutral-600/20 disabled:border-neutral-600/30 disabled:opacity-50 disabled:text-white"
         >
-          {isCreating ? 'Creating Parlay...' : isConnected ? 'Create Parlay' : 'Connect Wallet to Create'}
+          {isCreating
+            ? 'Creating Parlay...'
+            : !isConnected
+            ? 'Connect Wallet to Create'
+            : signOffChain && canSignOffChain
+            ? 'Sign Order'
+            : 'Create Parlay'}
         </button>
       </div>
     </div>
@@ -1,13 +1,26 @@
 'use client';
 
+import { useState } from 'react';
 import { useParlays } from '@/hooks/useParlays';
+import { useOwnedPositions } from '@/hooks/useOwnedPositions';
 import { useWeb3 } from '@/hooks/useWeb3';
 import ParlayCard from '@/components/ParlayCard';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import ClaimWinnings from '@/components/ClaimWinnings';
+import { ParlayData, canRefundStale, canCancelParlay, isCancelLocked } from '@/lib/contracts';
+import { formatUnits, getParlayMarketContract } from '@/lib/web3';
+import { parseContractError } from '@/lib/utils';
+
+// Flag unresolved parlays this close to their resolution deadline
+const DEADLINE_WARNING_MS = 7 * 24 * 60 * 60 * 1000;
 
 export default function MyParlaysPage() {
   const { account, isConnected, connect } = useWeb3();
   const { parlays, isLoading, error, refresh } = useParlays('coston2');
+  const { positions, isLoading: isLoadingPositions, error: positionsError, refresh: refreshPositions } = useOwnedPositions(account, 'coston2');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
 
   if (!isConnected) {
     return (
@@ -25,37 +38,154 @@ export default function MyParlaysPage() {
     );
   }
 
-  const myParlays = parlays.filter(
-    (parlay) =>
-      parlay.maker.toLowerCase() === account?.toLowerCase() ||
-      parlay.taker.toLowerCase() === account?.toLowerCase()
-  );
+  const refreshAll = async () => {
+    await Promise.all([refresh(), refreshPositions()]);
+  };
+
+  // Positions follow token ownership, so parlays the account takes part in come from the tokens it holds
+  // (bought or received ones included), alongside every parlay it made
+  const positionsByParlay = new Map<number, typeof positions>();
+  for (const position of positions) {
+    positionsByParlay.set(position.parlayId, [...(positionsByParlay.get(position.parlayId) || []), position]);
+  }
+  const isMakerOf = (parlay: ParlayData) => parlay.maker.toLowerCase() === account?.toLowerCase();
+  const myParlays = parlays.filter((parlay) => positionsByParlay.has(parlay.id) || isMakerOf(parlay));
+
+  // Filled parlays that still haven't resolved and are near (or past) their resolution deadline.
+  // Only the maker and current holders can refund them, so takers who sold out aren't warned.
+  const now = Date.now();
+  const nearDeadline = myParlays.filter((parlay) => {
+    const isOpen = parlay.status === 1 || (parlay.status === 0 && parlay.filledTakerStake > BigInt(0));
+    const canRefund = isMakerOf(parlay) || positionsByParlay.has(parlay.id);
+    return isOpen && canRefund && parlay.resolutionDeadline * 1000 - now < DEADLINE_WARNING_MS;
+  });
+
+  // The maker's open offers, for bulk cancellation; locked ones are listed but can't be selected
+  const openOffers = myParlays.filter((parlay) => parlay.status === 0 && isMakerOf(parlay));
+  const cancellableIds = openOffers.filter((parlay) => canCancelParlay(parlay, now)).map((parlay) => parlay.id);
+  const selected = selectedIds.filter((id) => cancellableIds.includes(id));
+
+  const toggleSelected = (parlayId: number) => {
+    setSelectedIds(selected.includes(parlayId)
+      ? selected.filter((id) => id !== parlayId)
+      : [...selected, parlayId]);
+  };
+
+  const handleCancelSelected = async () => {
+    setCancelError(null);
+    setIsCancelling(true);
+
+    try {
+      const contract = await getParlayMarketContract('coston2');
+      const tx = await contract.cancelParlays(selected);
+      await tx.wait();
+      setSelectedIds([]);
+      await refreshAll();
+    } catch (err: any) {
+      console.error('Error cancelling parlays:', err);
+      setCancelError(parseContractError(err, 'Failed to cancel parlays'));
+    } finally {
+      setIsCancelling(false);
+    }
+  };
 
   return (
     <div className="max-w-7xl mx-auto animate-fade-in-up">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-4xl font-bold">My Parlays</h1>
         <button
-          onClick={refresh}
+          onClick={refreshAll}
           className="px-4 py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20"
         >
           🔄 Refresh
         </button>
       </div>
 
-      {error && (
+      {(error || positionsError) && (
         <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 mb-6">
-          {error}
+          {error || positionsError}
+        </div>
+      )}
+
+      {account && <ClaimWinnings account={account} onClaimed={refreshAll} />}
+
+      {nearDeadline.length > 0 && (
+        <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-yellow-500 mb-8">
+          <div className="font-bold mb-2">Unresolved parlays near their resolution deadline</div>
+          <div className="space-y-1 text-sm">
+            {nearDeadline.map((parlay) => (
+              <a key={parlay.id} href={`/parlay/${parlay.id}`} className="flex justify-between gap-4 hover:text-yellow-300">
+                <span className="truncate">{parlay.name || `Parlay #${parlay.id}`}</span>
+                <span className="shrink-0">
+                  {canRefundStale(parlay, now)
+                    ? 'Deadline passed, refund available →'
+                    : `Refundable after ${new Date(parlay.resolutionDeadline * 1000).toLocaleString()}`}
+                </span>
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {openOffers.length > 0 && (
+        <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg mb-8">
+          <div className="flex justify-between items-center gap-4 mb-3">
+            <div className="font-bold">Your Open Offers ({openOffers.length})</div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setSelectedIds(selected.length === cancellableIds.length ? [] : cancellableIds)}
+                disabled={cancellableIds.length === 0 || isCancelling}
+                className="px-4 py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+              >
+                {selected.length === cancellableIds.length && cancellableIds.length > 0 ? 'Deselect All' : 'Select All'}
+              </button>
+              <button
+                onClick={handleCancelSelected}
+                disabled={selected.length === 0 || isCancelling}
+                className="px-4 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50"
+              >
+                {isCancelling ? 'Cancelling...' : `Cancel Selected (${selected.length})`}
+              </button>
+            </div>
+          </div>
+          {cancelError && (
+            <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 mb-3 text-sm">
+              {cancelError}
+            </div>
+          )}
+          <div className="space-y-1 text-sm">
+            {openOffers.map((parlay) => {
+              const isLocked = isCancelLocked(parlay, now);
+              return (
+                <label key={parlay.id} className={`flex items-center gap-3 py-1 ${isLocked ? 'text-neutral-500' : 'cursor-pointer'}`}>
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(parlay.id)}
+                    disabled={isLocked || isCancelling}
+                    onChange={() => toggleSelected(parlay.id)}
+                  />
+                  <span className="truncate flex-1">{parlay.name || `Parlay #${parlay.id}`}</span>
+                  <span className="shrink-0 text-neutral-400">
+                    {isLocked
+                      ? `🔒 Locked until ${new Date(parlay.expiry * 1000).toLocaleString()}`
+                      : parlay.filledTakerStake > BigInt(0)
+                      ? `Refunds ${formatUnits(parlay.makerStake - parlay.filledMakerStake, parlay.collateralDecimals)} ${parlay.collateralSymbol} unfilled`
+                      : `Refunds ${formatUnits(parlay.makerStake + parlay.resolverBounty, parlay.collateralDecimals)} ${parlay.collateralSymbol}`}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
         </div>
       )}
 
-      {isLoading ? (
+      {isLoading || isLoadingPositions ? (
         <LoadingSpinner size="lg" />
       ) : myParlays.length === 0 ? (
         <div className="text-center py-16">
           <div className="text-6xl mb-4">📊</div>
           <h2 className="text-2xl font-bold mb-2">No Parlays Yet</h2>
-          <p className="text-neutral-400 mb-6">You haven't created or filled any parlays</p>
+          <p className="text-neutral-400 mb-6">You haven't made, taken or bought into any parlays yet</p>
           <a
             href="/create"
             className="inline-block px-8 py-3 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20"
@@ -66,7 +196,25 @@ export default function MyParlaysPage() {
       ) : (
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
           {myParlays.map((parlay) => (
-            <ParlayCard key={parlay.id} parlay={parlay} />
+            <div key={parlay.id}>
+              {positionsByParlay.has(parlay.id) && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {positionsByParlay.get(parlay.id)!.map((position) => (
+                    <span
+                      key={position.tokenId}
+                      className={`px-3 py-1 rounded-full text-xs font-semibold border ${
+                        position.isYes
+                          ? 'bg-green-500/20 text-green-400 border-green-500/30'
+                          : 'bg-red-500/20 text-red-400 border-red-500/30'
+                      }`}
+                    >
+                      {position.isYes ? 'YES' : 'NO'} #{position.tokenId}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <ParlayCard parlay={parlay} />
+            </div>
           ))}
         </div>
       )}
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { useSignedOrders, SignedOrderView } from '@/hooks/useSignedOrders';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { getOutcomeString } from '@/lib/contracts';
+import { formatUnits, getParlayMarketContract, ensureCollateralAllowance } from '@/lib/web3';
+import { formatAddress, parseContractError } from '@/lib/utils';
+
+export default function SignedOrdersPage() {
+  const router = useRouter();
+  const { account, isConnected, connect } = useWeb3();
+  const { orders, isLoading, error, refresh } = useSignedOrders('coston2');
+  const [processingHash, setProcessingHash] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const myOrders = orders.filter((signed) => signed.order.maker.toLowerCase() === account?.toLowerCase());
+  const openOrders = orders.filter((signed) => signed.order.maker.toLowerCase() !== account?.toLowerCase());
+
+  const handleFill = async (signed: SignedOrderView) => {
+    if (!isConnected) {
+      await connect();
+      return;
+    }
+
+    setActionError(null);
+    setProcessingHash(signed.orderHash);
+
+    try {
+      // Both stakes are pulled with transferFrom, so the taker approves their side first
+      await ensureCollateralAllowance(signed.order.collateralToken, BigInt(signed.order.takerStake), 'coston2');
+
+      const contract = await getParlayMarketContract('coston2');
+      const tx = await contract.fillSignedOrder(signed.order, signed.signature);
+      const receipt = await tx.wait();
+
+      // Find the parlay created for this order
+      let parlayId: string | null = null;
+      for (const log of receipt.logs || []) {
+        try {
+          const parsed = contract.interface.parseLog({ topics: log.topics || [], data: log.data || '0x' });
+          if (parsed && parsed.name === 'SignedOrderFilled') {
+            parlayId = parsed.args.parlayId.toString();
+            break;
+          }
+        } catch {
+          // Not a ParlayMarket event
+        }
+      }
+
+      if (parlayId !== null) {
+        router.push(`/parlay/${parlayId}`);
+      } else {
+        await refresh();
+      }
+    } catch (err: any) {
+      console.error('Error filling signed order:', err);
+      setActionError(parseContractError(err, 'Failed to fill signed order'));
+    } finally {
+      setProcessingHash(null);
+    }
+  };
+
+  const handleCancel = async (signed: SignedOrderView) => {
+    setActionError(null);
+    setProcessingHash(signed.orderHash);
+
+    try {
+      const contract = await getParlayMarketContract('coston2');
+      const tx = await contract.cancelOrder(signed.order.nonce);
+      await tx.wait();
+      await refresh();
+    } catch (err: any) {
+      console.error('Error cancelling signed order:', err);
+      setActionError(parseContractError(err, 'Failed to cancel signed order'));
+    } finally {
+      setProcessingHash(null);
+    }
+  };
+
+  const handleCancelAll = async () => {
+    setActionError(null);
+    setProcessingHash('all');
+
+    try {
+      // Order nonces are creation timestamps, so this voids every order signed until now
+      const contract = await getParlayMarketContract('coston2');
+      const tx = await contract.cancelAllOrders(Date.now());
+      await tx.wait();
+      await refresh();
+    } catch (err: any) {
+      console.error('Error cancelling signed orders:', err);
+      setActionError(parseContractError(err, 'Failed to cancel signed orders'));
+    } finally {
+      setProcessingHash(null);
+    }
+  };
+
+  const renderOrder = (signed: SignedOrderView, isOwn: boolean) => {
+    const { order } = signed;
+    const takerSide = order.makerIsYes ? 'NO' : 'YES';
+    const isProcessing = processingHash !== null;
+
+    return (
+      <div key={signed.orderHash} className="p-6 bg-neutral-800/50 border border-neutral-700 rounded-xl flex flex-col">
+        <div className="flex justify-between items-start mb-3 gap-3">
+          <h3 className="text-lg font-bold">{order.name || 'Signed Parlay Order'}</h3>
+          <span className="px-3 py-1 rounded-full text-xs font-semibold bg-green-500/20 text-green-400 border border-green-500/30 shrink-0">
+            Available for {takerSide}
+          </span>
+        </div>
+
+        <div className="space-y-1 mb-4 flex-1">
+          {order.legNames.map((legName, idx) => (
+            <div key={idx} className="flex justify-between text-sm gap-2">
+              <span className="text-neutral-300 truncate">{legName}</span>
+              <span className="text-neutral-400 shrink-0">{getOutcomeString(order.requiredOutcomes[idx])}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-1 text-sm mb-4">
+          <div className="flex justify-between">
+            <span className="text-neutral-400">Maker:</span>
+            <span className="font-mono">{formatAddress(order.maker)}</span>
+          </div>
+          {order.minCorrectLegs < order.conditionIds.length && (
+            <div className="flex justify-between">
+              <span className="text-neutral-400">Legs Required:</span>
+              <span>{order.minCorrectLegs} of {order.conditionIds.length}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-neutral-400">Maker Stake:</span>
+            <span>{formatUnits(BigInt(order.makerStake), signed.collateralDecimals)} {signed.collateralSymbol}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-neutral-400">Taker Stake:</span>
+            <span>{formatUnits(BigInt(order.takerStake), signed.collateralDecimals)} {signed.collateralSymbol}</span>
+          </div>
+          {BigInt(order.resolverBounty) > BigInt(0) && (
+            <div className="flex justify-between">
+              <span className="text-neutral-400">Resolver Bounty:</span>
+              <span>{formatUnits(BigInt(order.resolverBounty), signed.collateralDecimals)} {signed.collateralSymbol}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-neutral-400">Expires:</span>
+            <span>{new Date(order.expiry * 1000).toISOString().slice(0, 10)}</span>
+          </div>
+        </div>
+
+        {isOwn ? (
+          <button
+            onClick={() => handleCancel(signed)}
+            disabled={isProcessing}
+            className="w-full py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+          >
+            {processingHash === signed.orderHash ? 'Cancelling...' : 'Cancel Order'}
+          </button>
+        ) : (
+          <button
+            onClick={() => handleFill(signed)}
+            disabled={isProcessing}
+            className="w-full py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50"
+          >
+            {processingHash === signed.orderHash
+              ? 'Filling...'
+              : `Fill as ${takerSide} (${formatUnits(BigInt(order.takerStake), signed.collateralDecimals)} ${signed.collateralSymbol})`}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto animate-fade-in-up">
+      <div className="flex justify-between items-center mb-2">
+        <h1 className="text-4xl font-bold">Signed Orders</h1>
+        <button
+          onClick={refresh}
+          className="px-4 py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20"
+        >
+          🔄 Refresh
+        </button>
+      </div>
+      <p className="text-neutral-400 mb-8">
+        Gasless parlay offers signed off-chain. Filling one creates the parlay and pulls both stakes in a single transaction.
+      </p>
+
+      {(error || actionError) && (
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 mb-6">
+          {actionError || error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <LoadingSpinner size="lg" />
+      ) : (
+        <>
+          {myOrders.length > 0 && (
+            <div className="mb-10">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-2xl font-bold">Your Orders</h2>
+                <button
+                  onClick={handleCancelAll}
+                  disabled={processingHash !== null}
+                  className="px-4 py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+                >
+                  {processingHash === 'all' ? 'Cancelling...' : 'Cancel All My Orders'}
+                </button>
+              </div>
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {myOrders.map((signed) => renderOrder(signed, true))}
+              </div>
+            </div>
+          )}
+
+          <h2 className="text-2xl font-bold mb-4">Open Orders</h2>
+          {openOrders.length === 0 ? (
+            <div className="text-center py-16">
+              <div className="text-6xl mb-4">✍️</div>
+              <h3 className="text-2xl font-bold mb-2">No Signed Orders</h3>
+              <p className="text-neutral-400">Signed orders from other makers will show up here.</p>
+            </div>
+          ) : (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {openOrders.map((signed) => renderOrder(signed, false))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
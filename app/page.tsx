@@ -5,7 +5,7 @@ import { useParlays } from '@/hooks/useParlays';
 import ParlayCard from '@/components/ParlayCard';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import { useState, useCallback, useEffect } from 'react';
-import { getParlayStatusString } from '@/lib/contracts';
+import { getParlayStatusString, canSeePrivateParlay } from '@/lib/contracts';
 import { DotLottieReact } from '@lottiefiles/dotlottie-react';
 import { useWeb3 } from '@/hooks/useWeb3';
 
@@ -30,6 +30,8 @@ export default function Home() {
   }, []);
 
   const filteredParlays = parlays.filter(parlay => {
+    // Private offers are only shared by link; keep them out of the public listing
+    if (!canSeePrivateParlay(parlay, account)) return false;
     if (filter === 'all') return true;
     const status = getParlayStatusString(parlay.status);
     if (filter === 'available') {
@@ -1,22 +1,52 @@
 'use client';
 
-import { useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { zeroPadValue, ZeroAddress, ZeroHash } from 'ethers';
 import { useParlay } from '@/hooks/useParlays';
 import { useWeb3 } from '@/hooks/useWeb3';
+import { useOracleProposals } from '@/hooks/useOracle';
+import { useProtocolFee } from '@/hooks/useProtocolFee';
+import { usePositionListings } from '@/hooks/usePositionListings';
 import LoadingSpinner from '@/components/LoadingSpinner';
-import { getParlayStatusString, getOutcomeString, CONTRACT_ADDRESSES } from '@/lib/contracts';
-import { formatEther, parseEther, getParlayMarketContract, importNFTToMetamask, getParlayTokenIds, getTokenIdsFromReceipt } from '@/lib/web3';
+import TransferPositionDialog from '@/components/TransferPositionDialog';
+import { getParlayStatusString, getOutcomeString, getVoidPolicyString, getCancelModeString, getLegRequirementString, isCancelLocked, canSettleEarly, canRefundStale, isParlayDecided, canRefundCounter, isCounterLapsed, getTermsHash, getFillBlockReason, isParlayTaker, isPrivateParlay, getFillPercent, CONTRACT_ADDRESSES, NATIVE_COLLATERAL, VoidPolicy, CounterStatus } from '@/lib/contracts';
+import { formatEther, parseEther, formatUnits, parseUnits, ensureCollateralAllowance, getParlayMarketContract, getOracleContract, getParlayTokenMarketplaceContract, isPositionApproved, signParlayTokenPermit, importNFTToMetamask, getParlayTokenIds, getTokenIdsFromReceipt } from '@/lib/web3';
+import { formatCountdown, calculateProtocolFee, formatAddress, toDateTimeLocal, parseContractError } from '@/lib/utils';
+import { getAllowlistProof, getAllowlistRoot } from '@/lib/allowlist';
 
 export default function ParlayDetailPage() {
   const params = useParams();
   const router = useRouter();
   const parlayId = parseInt(params.id as string);
+  // Private allowlist offers are shared with the allowlist in the link so takers can build their proof
+  const sharedAllowlist = useSearchParams().get('allowlist')?.split(',').filter(Boolean) || [];
   const { parlay, isLoading, error, refresh } = useParlay(parlayId, 'coston2');
   const { account, isConnected, connect } = useWeb3();
 
   const [isProcessing, setIsProcessing] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
+  const { proposals, disputeBond, pendingBond, refresh: refreshProposals } = useOracleProposals(parlay?.conditionIds || [], 'coston2', account);
+  const [now, setNow] = useState(Date.now());
+  const { feeBps } = useProtocolFee('coston2');
+  const [fillAmount, setFillAmount] = useState('');
+  const [counterStake, setCounterStake] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [editMakerStake, setEditMakerStake] = useState('');
+  const [editTakerStake, setEditTakerStake] = useState('');
+  const [editExpiry, setEditExpiry] = useState('');
+  const { positions, hasMarketplace, error: positionsError, refresh: refreshPositions } = usePositionListings(parlay?.fills || [], 'coston2');
+  const [isSelling, setIsSelling] = useState(false);
+  const [sellTokenId, setSellTokenId] = useState('');
+  const [sellPrice, setSellPrice] = useState('');
+  const [sellDays, setSellDays] = useState('3');
+  const [transferToken, setTransferToken] = useState<{ tokenId: string; isYes: boolean } | null>(null);
+
+  // Tick once a second so challenge period countdowns stay current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
 
   if (isLoading) {
     return <LoadingSpinner size="lg" />;
@@ -32,9 +62,48 @@ export default function ParlayDetailPage() {
 
   const status = getParlayStatusString(parlay.status);
   const totalPayout = parlay.makerStake + parlay.takerStake;
+  // Resolved parlays report the fee actually taken; otherwise estimate from the current fee
+  const protocolFee = parlay.protocolFee ?? calculateProtocolFee(totalPayout, feeBps);
+  const netPayout = totalPayout - protocolFee;
   const isExpired = parlay.expiry * 1000 < Date.now();
   const isMaker = account?.toLowerCase() === parlay.maker.toLowerCase();
-  const isTaker = account?.toLowerCase() === parlay.taker.toLowerCase();
+  const isTaker = isParlayTaker(parlay, account);
+  const unfilledTakerStake = parlay.takerStake - parlay.filledTakerStake;
+  const unmatchedMakerStake = parlay.makerStake - parlay.filledMakerStake;
+  // Counters keep their index in parlay.counters, which is the ID the contract expects
+  const openCounters = parlay.counters
+    .map((counter, counterId) => ({ counter, counterId }))
+    .filter(({ counter }) => counter.status === CounterStatus.Open);
+  const fillPercent = getFillPercent(parlay);
+  const isPartiallyFilled = status === 'Created' && parlay.filledTakerStake > BigInt(0);
+  // Offers locked until expiry can't be cancelled or edited before then
+  const isLocked = status === 'Created' && isCancelLocked(parlay, now);
+  // A failed leg can decide the parlay for NO before the remaining legs resolve
+  const isSettleable = (status === 'Filled' || isPartiallyFilled) && canSettleEarly(parlay, proposals, now);
+  const fillBlockReason = status === 'Created' ? getFillBlockReason(parlay, proposals, now) : null;
+  // Private offers can only be filled by the named taker or an address on the allowlist
+  const hasAllowlist = parlay.takerAllowlistRoot !== ZeroHash;
+  const allowlistProof = hasAllowlist && account && sharedAllowlist.length > 0
+    && getAllowlistRoot(sharedAllowlist) === parlay.takerAllowlistRoot
+    ? getAllowlistProof(sharedAllowlist, account)
+    : null;
+  const takerRestriction = !account
+    ? null
+    : parlay.allowedTaker !== ZeroAddress && account.toLowerCase() !== parlay.allowedTaker.toLowerCase()
+    ? `This private offer can only be filled by ${formatAddress(parlay.allowedTaker)}`
+    : hasAllowlist && !allowlistProof
+    ? sharedAllowlist.length === 0
+      ? 'This private offer is limited to an allowlist. Open it from the link the maker shared to fill it'
+      : 'Your address is not on this private offer\'s allowlist'
+    : null;
+  // Positions are tradable, so listings and the sell form go by current token ownership
+  const ownedPositions = positions.filter((position) => position.owner.toLowerCase() === account?.toLowerCase());
+  // The maker or any position holder can return the stakes once a filled parlay misses its resolution deadline,
+  // unless the legs that did resolve already decide it
+  const isStaleRefundable = (isMaker || ownedPositions.length > 0) && canRefundStale(parlay, now)
+    && !isParlayDecided(parlay, proposals, now);
+  const listedPositions = positions.filter((position) => position.price !== null);
+  const canTradePositions = hasMarketplace && (status === 'Created' || status === 'Filled') && positions.length > 0;
   const userSide = isMaker 
     ? (parlay.makerIsYes ? 'YES' : 'NO')
     : isTaker 
@@ -45,7 +114,9 @@ export default function ParlayDetailPage() {
   
   // Determine the display status text
   let displayStatus = status === 'Created' 
-    ? `Waiting for ${parlay.makerIsYes ? 'NO' : 'YES'} taker`
+    ? isPartiallyFilled
+      ? `${fillPercent.toFixed(0)}% filled, open for ${parlay.makerIsYes ? 'NO' : 'YES'} takers`
+      : `Waiting for ${parlay.makerIsYes ? 'NO' : 'YES'} taker`
     : status;
   
   // Show resolution outcome for resolved parlays
@@ -63,9 +134,26 @@ export default function ParlayDetailPage() {
     setIsProcessing(true);
 
     try {
+      const isNative = parlay.collateralToken === NATIVE_COLLATERAL;
+      
+      // Default to filling whatever is left
+      const amount = fillAmount
+        ? parseUnits(fillAmount, parlay.collateralDecimals)
+        : unfilledTakerStake;
+      if (amount <= BigInt(0)) {
+        throw new Error('Fill amount must be positive');
+      }
+      if (amount > unfilledTakerStake) {
+        throw new Error('Fill amount exceeds the unfilled taker stake');
+      }
+      
+      // ERC-20 stakes are pulled by the market, so approve it first if needed
+      await ensureCollateralAllowance(parlay.collateralToken, amount, 'coston2');
+      
       const contract = await getParlayMarketContract('coston2');
-      const tx = await contract.fillParlay(parlayId, {
-        value: parlay.takerStake,
+      // Quote the terms shown on the page so a maker update landing first reverts the fill
+      const tx = await contract.fillParlay(parlayId, amount, getTermsHash(parlay), allowlistProof || [], {
+        value: isNative ? amount : BigInt(0),
       });
       const receipt = await tx.wait();
       
@@ -94,10 +182,129 @@ export default function ParlayDetailPage() {
         }
       }
       
+      setFillAmount('');
       await refresh();
     } catch (err: any) {
       console.error('Error filling parlay:', err);
-      setActionError(err.message || 'Failed to fill parlay');
+      setActionError(parseContractError(err, 'Failed to fill parlay'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleProposeCounter = async () => {
+    if (!isConnected) {
+      await connect();
+      return;
+    }
+
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const isNative = parlay.collateralToken === NATIVE_COLLATERAL;
+      const amount = parseUnits(counterStake || '0', parlay.collateralDecimals);
+      if (amount <= BigInt(0)) {
+        throw new Error('Counter stake must be positive');
+      }
+
+      // The counter stake is escrowed until the maker accepts or it is refunded
+      await ensureCollateralAllowance(parlay.collateralToken, amount, 'coston2');
+
+      const contract = await getParlayMarketContract('coston2');
+      // Private parlays take counters only from takers who could fill them
+      const tx = await contract.proposeCounter(parlayId, amount, allowlistProof || [], {
+        value: isNative ? amount : BigInt(0),
+      });
+      await tx.wait();
+
+      setCounterStake('');
+      await refresh();
+    } catch (err: any) {
+      console.error('Error proposing counter-offer:', err);
+      setActionError(parseContractError(err, 'Failed to propose counter-offer'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleAcceptCounter = async (counterId: number) => {
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const contract = await getParlayMarketContract('coston2');
+      const tx = await contract.acceptCounter(parlayId, counterId);
+      await tx.wait();
+      await refresh();
+    } catch (err: any) {
+      console.error('Error accepting counter-offer:', err);
+      setActionError(parseContractError(err, 'Failed to accept counter-offer'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRefundCounter = async (counterId: number) => {
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const contract = await getParlayMarketContract('coston2');
+      const tx = await contract.refundCounter(parlayId, counterId);
+      await tx.wait();
+      await refresh();
+    } catch (err: any) {
+      console.error('Error refunding counter-offer:', err);
+      setActionError(parseContractError(err, 'Failed to refund counter-offer'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleStartEdit = () => {
+    setEditMakerStake(formatUnits(parlay.makerStake, parlay.collateralDecimals));
+    setEditTakerStake(formatUnits(parlay.takerStake, parlay.collateralDecimals));
+    setEditExpiry(toDateTimeLocal(parlay.expiry));
+    setIsEditing(true);
+  };
+
+  const handleUpdate = async () => {
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const isNative = parlay.collateralToken === NATIVE_COLLATERAL;
+      const makerStake = parseUnits(editMakerStake || '0', parlay.collateralDecimals);
+      const takerStake = parseUnits(editTakerStake || '0', parlay.collateralDecimals);
+      const expiry = Math.floor(new Date(editExpiry).getTime() / 1000);
+      if (makerStake <= parlay.filledMakerStake || takerStake <= parlay.filledTakerStake) {
+        throw new Error('Stakes must stay above what has already been filled');
+      }
+      if (!(expiry * 1000 > Date.now())) {
+        throw new Error('Expiry must be in the future');
+      }
+      if (expiry >= parlay.resolutionDeadline) {
+        throw new Error(`Expiry must be before the resolution deadline (${new Date(parlay.resolutionDeadline * 1000).toLocaleString()})`);
+      }
+
+      // A larger maker stake collects the difference; a smaller one is credited back for withdrawal
+      const topUp = makerStake > parlay.makerStake ? makerStake - parlay.makerStake : BigInt(0);
+      if (topUp > BigInt(0)) {
+        await ensureCollateralAllowance(parlay.collateralToken, topUp, 'coston2');
+      }
+
+      const contract = await getParlayMarketContract('coston2');
+      const tx = await contract.updateParlay(parlayId, makerStake, takerStake, expiry, {
+        value: isNative ? topUp : BigInt(0),
+      });
+      await tx.wait();
+
+      setIsEditing(false);
+      await refresh();
+    } catch (err: any) {
+      console.error('Error updating parlay:', err);
+      setActionError(parseContractError(err, 'Failed to update parlay'));
     } finally {
       setIsProcessing(false);
     }
@@ -111,10 +318,16 @@ export default function ParlayDetailPage() {
       const contract = await getParlayMarketContract('coston2');
       const tx = await contract.cancelParlay(parlayId);
       await tx.wait();
-      router.push('/my-parlays');
+      
+      // A partially filled parlay stays live for its filled positions
+      if (isPartiallyFilled) {
+        await refresh();
+      } else {
+        router.push('/my-parlays');
+      }
     } catch (err: any) {
       console.error('Error cancelling parlay:', err);
-      setActionError(err.message || 'Failed to cancel parlay');
+      setActionError(parseContractError(err, 'Failed to cancel parlay'));
     } finally {
       setIsProcessing(false);
     }
@@ -145,9 +358,9 @@ export default function ParlayDetailPage() {
         'coston2'
       );
 
-      // Check if any markets are not resolved in oracle
+      // Check if any markets have no outcome proposed in the oracle yet
       const unresolvedInOracle = parlay.conditionIds?.filter(
-        id => !oracleResolutions.get(id)?.resolved
+        id => !oracleResolutions.get(id)?.proposed
       ) || [];
 
       // Step 2: If markets are not in oracle, get attestation data
@@ -206,6 +419,23 @@ export default function ParlayDetailPage() {
         console.log('All markets already resolved in oracle');
       }
 
+      // Outcomes only become final once their challenge period has passed
+      const finalResolutions = await checkOracleResolutions(parlay.conditionIds || [], provider, 'coston2');
+      const pending = (parlay.conditionIds || [])
+        .map(id => finalResolutions.get(id))
+        .filter(r => r && !r.resolved);
+
+      if (pending.length > 0) {
+        const finalizesAt = Math.max(...pending.map(r => r!.disputeDeadline));
+        setActionError(
+          pending.some(r => !r!.proposed)
+            ? 'Some oracle outcomes are awaiting attestor quorum or dispute settlement. Resolve again once they are proposed.'
+            : `Oracle outcomes are in their challenge period until ${new Date(finalizesAt * 1000).toLocaleString()}. Resolve again once it ends.`
+        );
+        await refreshProposals();
+        return;
+      }
+
       // Step 3: Resolve the parlay on-chain
       console.log('Resolving parlay...');
       setActionError('Resolving parlay on-chain...');
@@ -219,7 +449,156 @@ export default function ParlayDetailPage() {
       await refresh();
     } catch (err: any) {
       console.error('Error resolving parlay:', err);
-      setActionError(err.message || 'Failed to resolve parlay');
+      setActionError(parseContractError(err, 'Failed to resolve parlay'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSettleEarly = async () => {
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const contract = await getParlayMarketContract('coston2');
+      const tx = await contract.settleEarly(parlayId);
+      await tx.wait();
+      await refresh();
+    } catch (err: any) {
+      console.error('Error settling parlay early:', err);
+      setActionError(parseContractError(err, 'Failed to settle parlay'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRefundStale = async () => {
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const contract = await getParlayMarketContract('coston2');
+      const tx = await contract.refundStale(parlayId);
+      await tx.wait();
+      await refresh();
+    } catch (err: any) {
+      console.error('Error refunding stale parlay:', err);
+      setActionError(parseContractError(err, 'Failed to refund stale parlay'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDispute = async (conditionId: string) => {
+    if (!isConnected) {
+      await connect();
+      return;
+    }
+    if (disputeBond === null) return;
+
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const oracle = await getOracleContract('coston2');
+      const tx = await oracle.dispute(zeroPadValue(conditionId, 32), { value: disputeBond });
+      await tx.wait();
+      await refreshProposals();
+    } catch (err: any) {
+      console.error('Error disputing outcome:', err);
+      setActionError(parseContractError(err, 'Failed to dispute outcome'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleWithdrawBond = async () => {
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const oracle = await getOracleContract('coston2');
+      const tx = await oracle.withdrawBond();
+      await tx.wait();
+      await refreshProposals();
+    } catch (err: any) {
+      console.error('Error withdrawing dispute bond:', err);
+      setActionError(parseContractError(err, 'Failed to withdraw dispute bond'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleStartSell = () => {
+    setSellTokenId(ownedPositions[0]?.tokenId || '');
+    setSellPrice('');
+    setIsSelling(true);
+  };
+
+  const handleListPosition = async () => {
+    if (!sellTokenId || !sellPrice) return;
+
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      // Escrow-free: the token stays in the wallet, the marketplace only needs approval to move it on sale
+      const marketplace = await getParlayTokenMarketplaceContract('coston2');
+      const expiry = Math.floor(Date.now() / 1000) + Number(sellDays) * 24 * 60 * 60;
+      let tx;
+      if (await isPositionApproved(sellTokenId, 'coston2')) {
+        tx = await marketplace.listPosition(sellTokenId, parseEther(sellPrice), expiry);
+      } else {
+        // Approve with a signed permit in the listing transaction instead of a separate approve
+        const deadline = Math.floor(Date.now() / 1000) + 60 * 60;
+        const signature = await signParlayTokenPermit(await marketplace.getAddress(), sellTokenId, deadline, 'coston2');
+        tx = await marketplace.listPositionWithPermit(sellTokenId, parseEther(sellPrice), expiry, deadline, signature);
+      }
+      await tx.wait();
+      setIsSelling(false);
+      await refreshPositions();
+    } catch (err: any) {
+      console.error('Error listing position:', err);
+      setActionError(parseContractError(err, 'Failed to list position'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleBuyPosition = async (tokenId: string, price: bigint) => {
+    if (!isConnected) {
+      await connect();
+      return;
+    }
+
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const marketplace = await getParlayTokenMarketplaceContract('coston2');
+      const tx = await marketplace.buyPosition(tokenId, { value: price });
+      await tx.wait();
+      await refreshPositions();
+    } catch (err: any) {
+      console.error('Error buying position:', err);
+      setActionError(parseContractError(err, 'Failed to buy position'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCancelListing = async (tokenId: string) => {
+    setActionError(null);
+    setIsProcessing(true);
+
+    try {
+      const marketplace = await getParlayTokenMarketplaceContract('coston2');
+      const tx = await marketplace.cancelListing(tokenId);
+      await tx.wait();
+      await refreshPositions();
+    } catch (err: any) {
+      console.error('Error cancelling listing:', err);
+      setActionError(parseContractError(err, 'Failed to cancel listing'));
     } finally {
       setIsProcessing(false);
     }
@@ -269,13 +648,23 @@ export default function ParlayDetailPage() {
           </div>
           <div className="text-right">
             <div className="text-neutral-400 text-sm">Total Pot</div>
-            <div className="text-3xl font-bold">{formatEther(totalPayout)} FLR</div>
+            <div className="text-3xl font-bold">{formatUnits(totalPayout, parlay.collateralDecimals)} {parlay.collateralSymbol}</div>
+            {protocolFee > BigInt(0) && (
+              <div className="text-neutral-400 text-sm mt-1">
+                Winner {status === 'Resolved' ? 'received' : 'receives'} {formatUnits(netPayout, parlay.collateralDecimals)} {parlay.collateralSymbol} after {formatUnits(protocolFee, parlay.collateralDecimals)} {parlay.collateralSymbol} fee
+              </div>
+            )}
+            {parlay.resolverBounty > BigInt(0) && (
+              <div className="text-neutral-400 text-sm mt-1">
+                Resolver bounty: {formatUnits(parlay.resolverBounty, parlay.collateralDecimals)} {parlay.collateralSymbol}
+              </div>
+            )}
           </div>
         </div>
 
-        {actionError && (
+        {(actionError || positionsError) && (
           <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 mb-6">
-            {actionError}
+            {actionError || positionsError}
           </div>
         )}
 
@@ -320,7 +709,7 @@ export default function ParlayDetailPage() {
               )}
             </div>
             <div className="font-mono text-sm">{parlay.maker}</div>
-            <div className="text-lg font-bold mt-2">{formatEther(parlay.makerStake)} FLR</div>
+            <div className="text-lg font-bold mt-2">{formatUnits(parlay.makerStake, parlay.collateralDecimals)} {parlay.collateralSymbol}</div>
           </div>
 
           <div className={`p-4 rounded-lg border ${
@@ -329,7 +718,9 @@ export default function ParlayDetailPage() {
               : 'bg-neutral-900/50 border-neutral-700'
           }`}>
             <div className="flex items-center justify-between mb-1">
-              <div className="text-neutral-400 text-sm">Taker {parlay.makerIsYes ? '(NO)' : '(YES)'}</div>
+              <div className="text-neutral-400 text-sm">
+                {parlay.fills.length > 1 ? `Takers (${parlay.fills.length})` : 'Taker'} {parlay.makerIsYes ? '(NO)' : '(YES)'}
+              </div>
               {isTaker && (
                 <span className="px-2 py-0.5 rounded text-xs font-semibold bg-blue-500/20 text-blue-300 border border-white/20">
                   You
@@ -337,19 +728,42 @@ export default function ParlayDetailPage() {
               )}
             </div>
             <div className="font-mono text-sm">
-              {parlay.taker === '0x0000000000000000000000000000000000000000' ? 'Waiting...' : parlay.taker}
+              {parlay.fills.length === 0 ? 'Waiting...' : parlay.fills.length === 1 ? parlay.taker : 'Multiple takers, see fills below'}
             </div>
-            <div className="text-lg font-bold mt-2">{formatEther(parlay.takerStake)} FLR</div>
+            <div className="text-lg font-bold mt-2">{formatUnits(parlay.takerStake, parlay.collateralDecimals)} {parlay.collateralSymbol}</div>
+            {parlay.filledTakerStake > BigInt(0) && parlay.filledTakerStake < parlay.takerStake && (
+              <div className="text-neutral-400 text-sm">
+                {formatUnits(parlay.filledTakerStake, parlay.collateralDecimals)} {parlay.collateralSymbol} filled
+              </div>
+            )}
           </div>
         </div>
 
         {/* Market Legs */}
         <div className="mb-6">
-          <h2 className="text-xl font-bold mb-4">Market Legs ({parlay.conditionIds?.length || 0})</h2>
+          <div className="flex justify-between items-baseline mb-4 gap-3">
+            <h2 className="text-xl font-bold">Market Legs ({parlay.conditionIds?.length || 0})</h2>
+            <div className="text-sm text-neutral-400 text-right">
+              {parlay.minCorrectLegs < parlay.conditionIds.length && (
+                <div>YES needs {getLegRequirementString(parlay)} legs to hit</div>
+              )}
+              {parlay.roundRobinId > 0 && (
+                <div>Part of round robin #{parlay.roundRobinId}</div>
+              )}
+              {isPrivateParlay(parlay) && (
+                <div>🔒 Private offer</div>
+              )}
+              <div>Invalid legs: {getVoidPolicyString(parlay.voidPolicy)}</div>
+              {status === 'Created' && <div>{getCancelModeString(parlay.cancelMode)}</div>}
+            </div>
+          </div>
           <div className="space-y-3">
             {parlay.conditionIds?.map((conditionId, idx) => {
               const imageUrl = parlay.imageUrls?.[idx];
               const legName = parlay.legNames?.[idx] || '';
+              const proposal = proposals[conditionId];
+              const inChallenge = proposal?.proposed && !proposal.disputed && proposal.disputeDeadline * 1000 > now;
+              const isVoided = parlay.voidedLegs?.includes(idx);
               return (
                 <div key={idx} className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg">
                   <div className="flex gap-4 items-start">
@@ -372,13 +786,58 @@ export default function ParlayDetailPage() {
                           <div className="text-white font-semibold mt-1">{legName}</div>
                         )}
                         <div className="font-mono text-xs mt-1 text-neutral-500">{conditionId}</div>
+                        {parlay.voidPolicy === VoidPolicy.DropLegReprice && (
+                          <div className="text-xs mt-1 text-neutral-500">
+                            Chance at creation: {(parlay.legProbabilitiesBps[idx] / 100).toFixed(0)}%
+                          </div>
+                        )}
+                        {parlay.legFillDeadlines[idx] > 0 && status === 'Created' && (
+                          <div className="text-xs mt-1 text-neutral-500">
+                            Fill by: {new Date(parlay.legFillDeadlines[idx] * 1000).toLocaleString()}
+                          </div>
+                        )}
                       </div>
-                      <div className={`px-3 py-1 rounded-full text-sm font-semibold backdrop-blur-xl shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] border ${
-                        parlay.requiredOutcomes?.[idx] === 1
-                          ? 'bg-green-500/10 text-green-500 border-green-500/20'
-                          : 'bg-red-500/10 text-red-500 border-red-500/20'
-                      }`}>
-                        Required: {getOutcomeString(parlay.requiredOutcomes?.[idx] || 0)}
+                      <div className="flex flex-col items-end gap-2">
+                        <div className={`px-3 py-1 rounded-full text-sm font-semibold backdrop-blur-xl shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] border ${
+                          parlay.requiredOutcomes?.[idx] === 1
+                            ? 'bg-green-500/10 text-green-500 border-green-500/20'
+                            : 'bg-red-500/10 text-red-500 border-red-500/20'
+                        }`}>
+                          Required: {getOutcomeString(parlay.requiredOutcomes?.[idx] || 0)}
+                        </div>
+                        {isVoided && (
+                          <div className="px-3 py-1 rounded-full text-xs font-semibold bg-yellow-500/10 text-yellow-500 border border-yellow-500/20">
+                            Voided
+                          </div>
+                        )}
+                        {(proposal?.proposed || proposal?.disputed) && (
+                          <div className="text-xs text-right">
+                            {proposal.disputed ? (
+                              <span className="text-yellow-500">
+                                {proposal.proposed
+                                  ? `Oracle: ${getOutcomeString(proposal.outcome)} (disputed, awaiting settlement)`
+                                  : 'Oracle: attestor votes conflict, awaiting settlement'}
+                              </span>
+                            ) : inChallenge ? (
+                              <span className="text-yellow-500">
+                                Oracle: {getOutcomeString(proposal.outcome)} · final in {formatCountdown(proposal.disputeDeadline, now)}
+                              </span>
+                            ) : (
+                              <span className="text-neutral-400">
+                                Oracle: {getOutcomeString(proposal.outcome)} (final)
+                              </span>
+                            )}
+                          </div>
+                        )}
+                        {inChallenge && (
+                          <button
+                            onClick={() => handleDispute(conditionId)}
+                            disabled={isProcessing || disputeBond === null}
+                            className="px-3 py-1 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full text-xs font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+                          >
+                            Dispute{disputeBond !== null ? ` (${formatEther(disputeBond)} FLR bond)` : ''}
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -386,6 +845,20 @@ export default function ParlayDetailPage() {
               );
             })}
           </div>
+          {pendingBond > BigInt(0) && (
+            <div className="mt-4 p-4 bg-green-500/10 border border-green-500/20 rounded-lg flex justify-between items-center gap-4">
+              <span className="text-green-500 text-sm">
+                {formatEther(pendingBond)} FLR in settled dispute bonds is waiting for you
+              </span>
+              <button
+                onClick={handleWithdrawBond}
+                disabled={isProcessing}
+                className="px-3 py-1 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full text-xs font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+              >
+                Withdraw Bond
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Expiry Info */}
@@ -399,80 +872,481 @@ export default function ParlayDetailPage() {
           </div>
         )}
 
-        {/* NFT Token IDs */}
-        {(status === 'Filled' || status === 'Resolved') && (parlay.yesTokenId || parlay.noTokenId) && (
+        {/* Fill Progress */}
+        {status === 'Created' && (
+          <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg mb-6">
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-neutral-400">Fill Progress</span>
+              <span>
+                {formatUnits(parlay.filledTakerStake, parlay.collateralDecimals)} / {formatUnits(parlay.takerStake, parlay.collateralDecimals)} {parlay.collateralSymbol} ({fillPercent.toFixed(0)}%)
+              </span>
+            </div>
+            <div className="w-full h-2 bg-neutral-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-green-500/60 rounded-full transition-all"
+                style={{ width: `${fillPercent}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Edit Offer */}
+        {status === 'Created' && isMaker && isEditing && (
+          <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg mb-6">
+            <h3 className="text-lg font-bold mb-1">Edit Offer</h3>
+            <div className="text-xs text-neutral-400 mb-3">
+              {isPartiallyFilled
+                ? `Stakes are totals and must stay above what is filled (${formatUnits(parlay.filledMakerStake, parlay.collateralDecimals)} maker / ${formatUnits(parlay.filledTakerStake, parlay.collateralDecimals)} taker). Existing fills keep their odds.`
+                : 'The parlay keeps its ID, so links you already shared still work.'}
+              {' '}Raising your stake collects the difference; lowering it credits the difference for withdrawal.
+            </div>
+            <div className="grid md:grid-cols-3 gap-3 mb-3">
+              <div>
+                <label className="block text-sm text-neutral-400 mb-1">Your Stake ({parlay.collateralSymbol})</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={editMakerStake}
+                  onChange={(e) => setEditMakerStake(e.target.value)}
+                  className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-neutral-400 mb-1">Taker Stake ({parlay.collateralSymbol})</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={editTakerStake}
+                  onChange={(e) => setEditTakerStake(e.target.value)}
+                  className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-neutral-400 mb-1">Expiry</label>
+                <input
+                  type="datetime-local"
+                  value={editExpiry}
+                  onChange={(e) => setEditExpiry(e.target.value)}
+                  className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg focus:outline-none focus:border-white/50"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleUpdate}
+                disabled={isProcessing}
+                className="flex-1 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50"
+              >
+                {isProcessing ? 'Processing...' : 'Save Changes'}
+              </button>
+              <button
+                onClick={() => setIsEditing(false)}
+                disabled={isProcessing}
+                className="px-6 py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Counter-Offers */}
+        {((status === 'Created' && !fillBlockReason && !takerRestriction) || openCounters.length > 0) && (
+          <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg mb-6">
+            <h3 className="text-lg font-bold mb-1">Counter-Offers</h3>
+            <div className="text-xs text-neutral-400 mb-3">
+              Offer a different {parlay.makerIsYes ? 'NO' : 'YES'} stake for the remaining {formatUnits(unmatchedMakerStake, parlay.collateralDecimals)} {parlay.collateralSymbol} maker stake. Your stake is escrowed until the maker accepts, and can be refunded after 24 hours or once the offer closes.
+            </div>
+
+            {openCounters.length > 0 ? (
+              <div className="space-y-2 mb-3">
+                {openCounters.map(({ counter, counterId }) => {
+                  const isCounterTaker = account?.toLowerCase() === counter.taker.toLowerCase();
+                  return (
+                    <div key={counterId} className="flex items-center justify-between gap-3 p-3 bg-neutral-800/50 border border-neutral-700 rounded-lg text-sm">
+                      <div>
+                        <div>
+                          <span className="font-mono">{formatAddress(counter.taker)}</span> offers{' '}
+                          <span className="font-semibold">{formatUnits(counter.takerStake, parlay.collateralDecimals)} {parlay.collateralSymbol}</span>
+                          {' '}vs {formatUnits(unfilledTakerStake, parlay.collateralDecimals)} asked
+                        </div>
+                        <div className="text-xs text-neutral-500">
+                          Proposed {new Date(counter.proposedAt * 1000).toLocaleString()}
+                        </div>
+                      </div>
+                      {isCounterLapsed(parlay, counter) && (
+                        <span className="px-3 py-1 rounded-full text-xs font-semibold bg-neutral-500/20 text-neutral-400 border border-neutral-500/30 shrink-0">
+                          Lapsed
+                        </span>
+                      )}
+                      {isMaker && status === 'Created' && !isExpired && !fillBlockReason && !isCounterLapsed(parlay, counter) && (
+                        <button
+                          onClick={() => handleAcceptCounter(counterId)}
+                          disabled={isProcessing}
+                          className="px-4 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50 shrink-0"
+                        >
+                          Accept
+                        </button>
+                      )}
+                      {isCounterTaker && canRefundCounter(parlay, counter, now) && (
+                        <button
+                          onClick={() => handleRefundCounter(counterId)}
+                          disabled={isProcessing}
+                          className="px-4 py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50 shrink-0"
+                        >
+                          Refund
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="text-sm text-neutral-500 mb-3">No pending counter-offers</div>
+            )}
+
+            {status === 'Created' && !isMaker && !isExpired && !fillBlockReason && !takerRestriction && (
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  value={counterStake}
+                  onChange={(e) => setCounterStake(e.target.value)}
+                  placeholder={`Your stake (${parlay.collateralSymbol})`}
+                  className="w-40 px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-full focus:outline-none focus:border-white/50"
+                />
+                <button
+                  onClick={handleProposeCounter}
+                  disabled={isProcessing || !counterStake}
+                  className="flex-1 py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+                >
+                  {isProcessing ? 'Processing...' : 'Propose Counter-Offer'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Resolution Deadline */}
+        {(status === 'Filled' || isPartiallyFilled) && (
+          <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg mb-6">
+            <div className="text-neutral-400 text-sm">Must Resolve By</div>
+            <div className={`text-lg font-semibold ${parlay.resolutionDeadline * 1000 < now ? 'text-red-500' : 'text-white'}`}>
+              {new Date(parlay.resolutionDeadline * 1000).toLocaleString()}
+              {parlay.resolutionDeadline * 1000 < now && ' (Passed, stakes can be refunded)'}
+            </div>
+          </div>
+        )}
+
+        {/* NFT Position Tokens, one YES/NO pair per fill */}
+        {parlay.fills.length > 0 && (status === 'Created' || status === 'Filled' || status === 'Resolved') && (
           <div className="p-4 bg-gradient-to-r from-purple-500/10 to-pink-500/10 border border-purple-500/20 rounded-lg mb-6">
             <h3 className="text-lg font-bold mb-3 flex items-center gap-2">
               <span>🎫</span> NFT Position Tokens
             </h3>
-            <div className="grid md:grid-cols-2 gap-4">
-              {parlay.yesTokenId && (
-                <div className="p-3 bg-neutral-900/50 border border-neutral-700 rounded-lg">
-                  <div className="text-neutral-400 text-sm mb-1">YES Token ID</div>
-                  <div className="font-mono text-lg font-bold text-green-400 mb-2">#{parlay.yesTokenId}</div>
-                  {account?.toLowerCase() === (parlay.makerIsYes ? parlay.maker : parlay.taker).toLowerCase() && (
-                    <button
-                      onClick={() => handleImportNFT(parlay.yesTokenId!)}
-                      className="w-full py-2 px-4 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30"
-                    >
-                      Import to Metamask
-                    </button>
-                  )}
-                </div>
-              )}
-              {parlay.noTokenId && (
-                <div className="p-3 bg-neutral-900/50 border border-neutral-700 rounded-lg">
-                  <div className="text-neutral-400 text-sm mb-1">NO Token ID</div>
-                  <div className="font-mono text-lg font-bold text-red-400 mb-2">#{parlay.noTokenId}</div>
-                  {account?.toLowerCase() === (parlay.makerIsYes ? parlay.taker : parlay.maker).toLowerCase() && (
-                    <button
-                      onClick={() => handleImportNFT(parlay.noTokenId!)}
-                      className="w-full py-2 px-4 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30"
-                    >
-                      Import to Metamask
-                    </button>
-                  )}
+            <div className="space-y-3">
+              {parlay.fills.map((fill, idx) => {
+                // Prefer the current owner, since positions can be sold or transferred after the fill
+                const holderOf = (tokenId: string) => positions.find((position) => position.tokenId === tokenId)?.owner;
+                const yesHolder = holderOf(fill.yesTokenId) || (parlay.makerIsYes ? parlay.maker : fill.taker);
+                const noHolder = holderOf(fill.noTokenId) || (parlay.makerIsYes ? fill.taker : parlay.maker);
+                return (
+                  <div key={idx} className="p-3 bg-neutral-900/50 border border-neutral-700 rounded-lg">
+                    <div className="flex justify-between text-sm text-neutral-400 mb-2">
+                      <span>Fill #{idx + 1} by <span className="font-mono">{fill.taker.slice(0, 6)}...{fill.taker.slice(-4)}</span></span>
+                      <span>
+                        {formatUnits(fill.takerStake, parlay.collateralDecimals)} taker + {formatUnits(fill.makerStake, parlay.collateralDecimals)} maker {parlay.collateralSymbol}
+                      </span>
+                    </div>
+                    <div className="grid md:grid-cols-2 gap-4">
+                      <div>
+                        <div className="text-neutral-400 text-sm mb-1">YES Token ID</div>
+                        <div className="font-mono text-lg font-bold text-green-400 mb-2">#{fill.yesTokenId}</div>
+                        {account?.toLowerCase() === yesHolder.toLowerCase() && (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleImportNFT(fill.yesTokenId)}
+                              className="flex-1 py-2 px-4 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30"
+                            >
+                              Import to Metamask
+                            </button>
+                            {status !== 'Resolved' && (
+                              <button
+                                onClick={() => setTransferToken({ tokenId: fill.yesTokenId, isYes: true })}
+                                className="flex-1 py-2 px-4 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20"
+                              >
+                                Transfer
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      <div>
+                        <div className="text-neutral-400 text-sm mb-1">NO Token ID</div>
+                        <div className="font-mono text-lg font-bold text-red-400 mb-2">#{fill.noTokenId}</div>
+                        {account?.toLowerCase() === noHolder.toLowerCase() && (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleImportNFT(fill.noTokenId)}
+                              className="flex-1 py-2 px-4 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30"
+                            >
+                              Import to Metamask
+                            </button>
+                            {status !== 'Resolved' && (
+                              <button
+                                onClick={() => setTransferToken({ tokenId: fill.noTokenId, isYes: false })}
+                                className="flex-1 py-2 px-4 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20"
+                              >
+                                Transfer
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="mt-3 text-xs text-neutral-400">
+              💡 Tip: Click "Import to Metamask" to add your NFT position to your wallet, or "Transfer" to send it to someone else
+            </div>
+          </div>
+        )}
+
+        {/* Position Market: escrow-free listings of position tokens, priced in FLR */}
+        {canTradePositions && (
+          <div className="p-4 bg-neutral-900/50 border border-neutral-700 rounded-lg mb-6">
+            <div className="flex justify-between items-start gap-3 mb-3">
+              <div>
+                <h3 className="text-lg font-bold mb-1">Position Market</h3>
+                <div className="text-xs text-neutral-400">
+                  Buy a listed YES or NO position for FLR. Winnings go to whoever holds the token when the parlay resolves.
                 </div>
+              </div>
+              {ownedPositions.length > 0 && !isSelling && (
+                <button
+                  onClick={handleStartSell}
+                  disabled={isProcessing}
+                  className="px-4 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50 shrink-0"
+                >
+                  Sell my position
+                </button>
               )}
             </div>
-            <div className="mt-3 text-xs text-neutral-400">
-              💡 Tip: Click "Import to Metamask" to add your NFT position to your wallet
+
+            <div className="grid md:grid-cols-2 gap-4">
+              {[true, false].map((isYes) => {
+                const sideListings = listedPositions.filter((position) => position.isYes === isYes);
+                return (
+                  <div key={isYes ? 'yes' : 'no'}>
+                    <div className={`text-sm font-semibold mb-2 ${isYes ? 'text-green-400' : 'text-red-400'}`}>
+                      {isYes ? 'YES' : 'NO'} Listings
+                    </div>
+                    {sideListings.length === 0 ? (
+                      <div className="text-sm text-neutral-500">No {isYes ? 'YES' : 'NO'} positions for sale</div>
+                    ) : (
+                      <div className="space-y-2">
+                        {sideListings.map((position) => {
+                          const isSeller = account?.toLowerCase() === position.owner.toLowerCase();
+                          return (
+                            <div key={position.tokenId} className="flex items-center justify-between gap-3 p-3 bg-neutral-800/50 border border-neutral-700 rounded-lg text-sm">
+                              <div>
+                                <div>
+                                  <span className="font-mono">#{position.tokenId}</span> for{' '}
+                                  <span className="font-semibold">{formatEther(position.price!)} FLR</span>
+                                </div>
+                                <div className="text-xs text-neutral-500">
+                                  {isSeller ? 'Your listing' : <>Seller <span className="font-mono">{formatAddress(position.owner)}</span></>}
+                                  {' '}· until {new Date(position.expiry! * 1000).toLocaleString()}
+                                </div>
+                              </div>
+                              {isSeller ? (
+                                <button
+                                  onClick={() => handleCancelListing(position.tokenId)}
+                                  disabled={isProcessing}
+                                  className="px-4 py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50 shrink-0"
+                                >
+                                  Cancel
+                                </button>
+                              ) : (
+                                <button
+                                  onClick={() => handleBuyPosition(position.tokenId, position.price!)}
+                                  disabled={isProcessing}
+                                  className="px-4 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full text-sm font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50 shrink-0"
+                                >
+                                  Buy
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
             </div>
+
+            {isSelling && ownedPositions.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-neutral-700">
+                <div className="text-xs text-neutral-400 mb-3">
+                  The token stays in your wallet until someone buys it. The marketplace is approved with a signed permit in the same transaction, and listing again replaces your current price.
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <select
+                    value={sellTokenId}
+                    onChange={(e) => setSellTokenId(e.target.value)}
+                    className="px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-full focus:outline-none focus:border-white/50"
+                  >
+                    {ownedPositions.map((position) => (
+                      <option key={position.tokenId} value={position.tokenId}>
+                        {position.isYes ? 'YES' : 'NO'} #{position.tokenId}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={sellPrice}
+                    onChange={(e) => setSellPrice(e.target.value)}
+                    placeholder="Price (FLR)"
+                    className="w-36 px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-full focus:outline-none focus:border-white/50"
+                  />
+                  <select
+                    value={sellDays}
+                    onChange={(e) => setSellDays(e.target.value)}
+                    className="px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-full focus:outline-none focus:border-white/50"
+                  >
+                    <option value="1">1 day</option>
+                    <option value="3">3 days</option>
+                    <option value="7">7 days</option>
+                  </select>
+                  <button
+                    onClick={handleListPosition}
+                    disabled={isProcessing || !sellTokenId || !sellPrice}
+                    className="flex-1 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50"
+                  >
+                    {isProcessing ? 'Processing...' : 'List for Sale'}
+                  </button>
+                  <button
+                    onClick={() => setIsSelling(false)}
+                    disabled={isProcessing}
+                    className="px-4 py-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full font-semibold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
         {/* Actions */}
         <div className="flex gap-4">
-          {status === 'Created' && !isMaker && (
+          {status === 'Created' && !isMaker && fillBlockReason && (
+            <div className="flex-1 py-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-center text-yellow-500 text-sm">
+              {fillBlockReason}, so this offer can no longer be filled
+            </div>
+          )}
+
+          {status === 'Created' && !isMaker && !fillBlockReason && takerRestriction && (
+            <div className="flex-1 py-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-center text-yellow-500 text-sm">
+              {takerRestriction}
+            </div>
+          )}
+
+          {status === 'Created' && !isMaker && !fillBlockReason && !takerRestriction && (
+            <div className="flex-1 flex gap-2">
+              <input
+                type="number"
+                step="0.01"
+                value={fillAmount}
+                onChange={(e) => setFillAmount(e.target.value)}
+                placeholder={`${formatUnits(unfilledTakerStake, parlay.collateralDecimals)} (max)`}
+                className="w-40 px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-full focus:outline-none focus:border-white/50"
+              />
+              <button
+                onClick={handleFill}
+                disabled={isProcessing}
+                className="flex-1 py-3 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:bg-neutral-600/20 disabled:border-neutral-600/30 disabled:opacity-50"
+              >
+                {isProcessing ? 'Processing...' : `Fill Parlay (${fillAmount || formatUnits(unfilledTakerStake, parlay.collateralDecimals)} ${parlay.collateralSymbol})`}
+              </button>
+            </div>
+          )}
+
+          {status === 'Created' && isMaker && isLocked && (
+            <div className="flex-1 py-3 bg-neutral-500/10 border border-neutral-500/20 rounded-lg text-center text-neutral-300 text-sm">
+              🔒 Locked until {new Date(parlay.expiry * 1000).toLocaleString()}. You can cancel or edit the offer after it expires.
+            </div>
+          )}
+
+          {status === 'Created' && isMaker && !isLocked && !isEditing && (
             <button
-              onClick={handleFill}
+              onClick={handleStartEdit}
               disabled={isProcessing}
-              className="flex-1 py-3 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:bg-neutral-600/20 disabled:border-neutral-600/30 disabled:opacity-50"
+              className="flex-1 py-3 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
             >
-              {isProcessing ? 'Processing...' : `Fill Parlay (${formatEther(parlay.takerStake)} FLR)`}
+              Edit Offer
             </button>
           )}
 
-          {status === 'Created' && isMaker && (
+          {status === 'Created' && isMaker && !isLocked && (
             <button
               onClick={handleCancel}
               disabled={isProcessing}
               className="flex-1 py-3 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:bg-neutral-600/20 disabled:border-neutral-600/30 disabled:opacity-50"
             >
-              {isProcessing ? 'Processing...' : 'Cancel Parlay'}
+              {isProcessing ? 'Processing...' : isPartiallyFilled ? 'Cancel Unfilled Remainder' : 'Cancel Parlay'}
             </button>
           )}
 
-          {status === 'Filled' && (
+          {isSettleable && (
+            <button
+              onClick={handleSettleEarly}
+              disabled={isProcessing}
+              title="A resolved leg already rules out YES, so NO can be paid without waiting for the other legs"
+              className="flex-1 py-3 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:bg-neutral-600/20 disabled:border-neutral-600/30 disabled:opacity-50"
+            >
+              {isProcessing ? 'Processing...' : 'Settle Now (NO wins)'}
+            </button>
+          )}
+
+          {(status === 'Filled' || isPartiallyFilled) && !isSettleable && (
             <button
               onClick={handleResolve}
               disabled={isProcessing}
               className="flex-1 py-3 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:bg-neutral-600/20 disabled:border-neutral-600/30 disabled:opacity-50"
             >
-              {isProcessing ? 'Processing...' : 'Resolve Parlay'}
+              {isProcessing
+                ? 'Processing...'
+                : parlay.resolverBounty > BigInt(0)
+                ? `Resolve Parlay (earn ${formatUnits(parlay.resolverBounty, parlay.collateralDecimals)} ${parlay.collateralSymbol})`
+                : 'Resolve Parlay'}
+            </button>
+          )}
+
+          {isStaleRefundable && (
+            <button
+              onClick={handleRefundStale}
+              disabled={isProcessing}
+              title="The parlay was not resolved by its deadline, so both stakes can be returned"
+              className="flex-1 py-3 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:bg-neutral-600/20 disabled:border-neutral-600/30 disabled:opacity-50"
+            >
+              {isProcessing ? 'Processing...' : 'Refund Stale Parlay'}
             </button>
           )}
 
+          {status === 'Stale' && (
+            <div className="flex-1 py-3 bg-neutral-500/10 border border-neutral-500/20 rounded-lg text-center">
+              <div className="text-neutral-300 font-bold">Not resolved in time, stakes refunded</div>
+              <a href="/my-parlays" className="text-xs text-neutral-400 hover:text-white">
+                Refunds are credited to both sides. Claim them on My Parlays →
+              </a>
+            </div>
+          )}
+
           {status === 'Resolved' && (
             <div className="flex-1 py-3 bg-green-500/10 border border-green-500/20 rounded-lg text-center">
               <div className="text-green-500 font-bold">
@@ -480,10 +1354,23 @@ export default function ParlayDetailPage() {
                   ? `Resolved to ${parlay.yesWins ? 'YES' : 'NO'} ✓`
                   : 'Parlay Resolved ✓'}
               </div>
+              <a href="/my-parlays" className="text-xs text-neutral-400 hover:text-white">
+                Winnings are credited to the winner. Claim them on My Parlays →
+              </a>
             </div>
           )}
         </div>
       </div>
+
+      {transferToken && account && (
+        <TransferPositionDialog
+          account={account}
+          tokenId={transferToken.tokenId}
+          isYes={transferToken.isYes}
+          onClose={() => setTransferToken(null)}
+          onTransferred={() => Promise.all([refresh(), refreshPositions()])}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { EventLog } from 'ethers';
+import { formatUnits, getParlayMarketContract, getCollateralTokenInfo } from '@/lib/web3';
+import { CollateralToken, NATIVE_COLLATERAL } from '@/lib/contracts';
+import { parseContractError } from '@/lib/utils';
+
+interface ClaimWinningsProps {
+  account: string;
+  onClaimed?: () => void;
+}
+
+interface ClaimableBalance {
+  token: CollateralToken;
+  amount: bigint;
+}
+
+export default function ClaimWinnings({ account, onClaimed }: ClaimWinningsProps) {
+  const [balances, setBalances] = useState<ClaimableBalance[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [claimingToken, setClaimingToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchClaimable = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const contract = await getParlayMarketContract('coston2');
+
+      // ERC-20 balances can only exist for tokens that were credited to this account
+      const credited = await contract.queryFilter(contract.filters.TokenWithdrawalCredited(null, account));
+      const tokenAddresses = Array.from(new Set(
+        credited
+          .filter((event): event is EventLog => event instanceof EventLog)
+          .map((event) => event.args.token as string)
+      ));
+
+      const [nativeAmount, ...tokenAmounts] = await Promise.all([
+        contract.pendingWithdrawals(account),
+        ...tokenAddresses.map((token) => contract.pendingTokenWithdrawals(token, account)),
+      ]);
+      const tokens = await Promise.all(
+        [NATIVE_COLLATERAL, ...tokenAddresses].map((token) => getCollateralTokenInfo(token))
+      );
+
+      const amounts: bigint[] = [nativeAmount, ...tokenAmounts];
+      setBalances(
+        tokens
+          .map((token, idx) => ({ token, amount: amounts[idx] }))
+          // Always show native FLR, plus any token with a balance
+          .filter((balance) => balance.token.address === NATIVE_COLLATERAL || balance.amount > BigInt(0))
+      );
+    } catch (err: any) {
+      console.error('Error fetching claimable balance:', err);
+      setError(err.message || 'Failed to fetch claimable balance');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account]);
+
+  useEffect(() => {
+    fetchClaimable();
+  }, [fetchClaimable]);
+
+  const handleClaim = async (token: string) => {
+    setError(null);
+    setClaimingToken(token);
+
+    try {
+      const contract = await getParlayMarketContract('coston2');
+      const tx = token === NATIVE_COLLATERAL
+        ? await contract.withdraw()
+        : await contract.withdrawToken(token);
+      await tx.wait();
+      await fetchClaimable();
+      onClaimed?.();
+    } catch (err: any) {
+      console.error('Error claiming winnings:', err);
+      setError(parseContractError(err, 'Failed to claim winnings'));
+    } finally {
+      setClaimingToken(null);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-gradient-to-r from-green-500/10 to-emerald-500/10 border border-green-500/20 rounded-xl mb-8">
+      <div>
+        <h2 className="text-xl font-bold mb-1">Claim Winnings</h2>
+        <div className="text-neutral-400 text-sm">
+          Winnings and refunds from settled or cancelled parlays are credited here
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-sm mt-4">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-neutral-400 mt-4">Loading...</div>
+      ) : (
+        <div className="space-y-3 mt-4">
+          {balances.map(({ token, amount }) => (
+            <div key={token.address} className="flex justify-between items-center gap-4">
+              <div>
+                <div className="text-neutral-400 text-sm">Claimable {token.symbol}</div>
+                <div className="text-2xl font-bold">
+                  {formatUnits(amount, token.decimals)} {token.symbol}
+                </div>
+              </div>
+              <button
+                onClick={() => handleClaim(token.address)}
+                disabled={claimingToken !== null || amount === BigInt(0)}
+                className="px-6 py-3 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:bg-neutral-600/20 disabled:border-neutral-600/30 disabled:opacity-50"
+              >
+                {claimingToken === token.address ? 'Claiming...' : amount === BigInt(0) ? 'Nothing to Claim' : 'Claim Winnings'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
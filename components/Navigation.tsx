@@ -14,6 +14,7 @@ export default function Navigation() {
   const navLinks = [
     { href: '/', label: 'Home' },
     { href: '/my-parlays', label: 'My Parlays' },
+    { href: '/orders', label: 'Signed Orders' },
     { href: '/create', label: 'Create Parlay' },
   ];
 
@@ -2,8 +2,8 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { ParlayData, getParlayStatusString, getOutcomeString } from '@/lib/contracts';
-import { formatEther } from 'ethers';
+import { ParlayData, getParlayStatusString, getOutcomeString, isParlayTaker, getFillPercent, getLegRequirementString } from '@/lib/contracts';
+import { formatUnits } from 'ethers';
 import { useWeb3 } from '@/hooks/useWeb3';
 
 interface ParlayCardProps {
@@ -19,7 +19,7 @@ export default function ParlayCard({ parlay }: ParlayCardProps) {
   
   // Determine if user is in this parlay and which side they're on
   const isMaker = account?.toLowerCase() === parlay.maker.toLowerCase();
-  const isTaker = account?.toLowerCase() === parlay.taker.toLowerCase();
+  const isTaker = isParlayTaker(parlay, account);
   const isInParlay = isMaker || isTaker;
   const userSide = isMaker 
     ? (parlay.makerIsYes ? 'YES' : 'NO')
@@ -28,8 +28,11 @@ export default function ParlayCard({ parlay }: ParlayCardProps) {
     : null;
   
   // Determine the display status text
+  const fillPercent = getFillPercent(parlay);
   let displayStatus = status === 'Created'
-    ? `Available for ${parlay.makerIsYes ? 'NO' : 'YES'}`
+    ? fillPercent > 0
+      ? `${fillPercent.toFixed(0)}% filled`
+      : `Available for ${parlay.makerIsYes ? 'NO' : 'YES'}`
     : status;
   
   // Show resolution outcome for resolved parlays
@@ -43,6 +46,7 @@ export default function ParlayCard({ parlay }: ParlayCardProps) {
     Resolved: 'bg-purple-500/20 text-purple-400 border-purple-500/30',
     Cancelled: 'bg-neutral-500/20 text-neutral-400 border-neutral-500/30',
     Invalid: 'bg-red-500/20 text-red-400 border-red-500/30',
+    Stale: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
   };
 
   // Card border colors based on status
@@ -52,6 +56,7 @@ export default function ParlayCard({ parlay }: ParlayCardProps) {
     Resolved: 'border-purple-500/30 hover:border-purple-500/50',
     Cancelled: 'border-neutral-600 hover:border-neutral-500',
     Invalid: 'border-red-500/30 hover:border-red-500/50',
+    Stale: 'border-orange-500/30 hover:border-orange-500/50',
   };
 
   // Yellow border if user is in this parlay
@@ -143,7 +148,7 @@ export default function ParlayCard({ parlay }: ParlayCardProps) {
             <div className="space-y-1">
               <div className="flex justify-between text-sm">
                 <span className="text-neutral-400">Legs:</span>
-                <span className="text-white font-semibold">{parlay.conditionIds?.length || 0}</span>
+                <span className="text-white font-semibold">{getLegRequirementString(parlay)}</span>
               </div>
 
               {status === 'Created' && (
@@ -159,12 +164,12 @@ export default function ParlayCard({ parlay }: ParlayCardProps) {
             <div className="space-y-1">
               <div className="flex justify-between text-sm">
                 <span className="text-neutral-400">Maker Stake:</span>
-                <span className="text-white">{formatEther(parlay.makerStake)} FLR</span>
+                <span className="text-white">{formatUnits(parlay.makerStake, parlay.collateralDecimals)} {parlay.collateralSymbol}</span>
               </div>
 
               <div className="flex justify-between text-sm">
                 <span className="text-neutral-400">Taker Stake:</span>
-                <span className="text-white">{formatEther(parlay.takerStake)} FLR</span>
+                <span className="text-white">{formatUnits(parlay.takerStake, parlay.collateralDecimals)} {parlay.collateralSymbol}</span>
               </div>
             </div>
           </div>
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { getParlayTokenContract, resolveRecipient, checkPositionRecipient } from '@/lib/web3';
+import { formatAddress, parseContractError } from '@/lib/utils';
+
+interface TransferPositionDialogProps {
+  account: string;
+  tokenId: string;
+  isYes: boolean;
+  onClose: () => void;
+  onTransferred?: () => void;
+}
+
+interface CheckedRecipient {
+  address: string;
+  isContract: boolean;
+}
+
+export default function TransferPositionDialog({ account, tokenId, isYes, onClose, onTransferred }: TransferPositionDialogProps) {
+  const [recipientInput, setRecipientInput] = useState('');
+  const [recipient, setRecipient] = useState<CheckedRecipient | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReview = async () => {
+    setError(null);
+    setRecipient(null);
+    setIsChecking(true);
+
+    try {
+      const address = await resolveRecipient(recipientInput);
+      if (address.toLowerCase() === account.toLowerCase()) {
+        throw new Error('You already hold this position');
+      }
+
+      const { isContract, canReceive } = await checkPositionRecipient(tokenId, address, 'coston2');
+      if (!canReceive) {
+        throw new Error(`${formatAddress(address)} is a contract that doesn't implement onERC721Received, so the transfer would revert`);
+      }
+      setRecipient({ address, isContract });
+    } catch (err: any) {
+      console.error('Error checking recipient:', err);
+      setError(parseContractError(err, 'Failed to check recipient'));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!recipient) return;
+
+    setError(null);
+    setIsTransferring(true);
+
+    try {
+      const token = await getParlayTokenContract('coston2');
+      const tx = await token['safeTransferFrom(address,address,uint256)'](account, recipient.address, tokenId);
+      await tx.wait();
+      onTransferred?.();
+      onClose();
+    } catch (err: any) {
+      console.error('Error transferring position:', err);
+      setError(parseContractError(err, 'Failed to transfer position'));
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-700 rounded-xl max-w-lg w-full p-6">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl font-bold">Transfer Position</h2>
+          <button
+            onClick={onClose}
+            disabled={isTransferring}
+            className="text-neutral-400 hover:text-white text-2xl w-8 h-8 flex items-center justify-center bg-white/5 backdrop-blur-xl border border-white/10 rounded-full shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] transition-all hover:bg-white/10"
+          >
+            ×
+          </button>
+        </div>
+        <p className="text-sm text-neutral-400 mb-4">
+          Send your <span className={isYes ? 'text-green-400' : 'text-red-400'}>{isYes ? 'YES' : 'NO'}</span> token{' '}
+          <span className="font-mono">#{tokenId}</span>. Winnings go to whoever holds it when the parlay resolves, so this hands over the position&apos;s payout.
+        </p>
+
+        <input
+          type="text"
+          value={recipientInput}
+          onChange={(e) => {
+            setRecipientInput(e.target.value);
+            setRecipient(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleReview()}
+          placeholder="Recipient address (0x...) or name"
+          className="w-full px-4 py-2 bg-neutral-800 border border-neutral-600 rounded-lg font-mono text-sm focus:outline-none focus:border-white/50 mb-4"
+        />
+
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-500 text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {recipient && (
+          <div className="p-4 bg-neutral-800/50 border border-neutral-700 rounded-lg text-sm mb-4">
+            <div className="text-neutral-400 mb-1">Recipient</div>
+            <div className="font-mono break-all">{recipient.address}</div>
+            {recipient.isContract && (
+              <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-yellow-500 mt-3">
+                This address is a contract. It accepts ERC-721 tokens, but winnings are credited to it and have to be withdrawn by the contract itself. Only send it if you know it can do that.
+              </div>
+            )}
+          </div>
+        )}
+
+        {recipient ? (
+          <button
+            onClick={handleTransfer}
+            disabled={isTransferring}
+            className="w-full py-3 bg-white/10 backdrop-blur-xl border border-white/20 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/20 hover:border-white/30 disabled:opacity-50"
+          >
+            {isTransferring ? 'Transferring...' : `Transfer to ${formatAddress(recipient.address)}`}
+          </button>
+        ) : (
+          <button
+            onClick={handleReview}
+            disabled={isChecking || !recipientInput.trim()}
+            className="w-full py-3 bg-white/5 backdrop-blur-xl border border-white/10 rounded-full font-bold transition-all shadow-[0_8px_32px_rgba(0,0,0,0.4),inset_0_1px_0_rgba(255,255,255,0.1)] hover:bg-white/10 hover:border-white/20 disabled:opacity-50"
+          >
+            {isChecking ? 'Checking...' : 'Review Transfer'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
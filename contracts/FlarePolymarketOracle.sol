@@ -11,6 +11,11 @@ interface IFdcVerification {
     ) external view returns (bool);
 }
 
+// Settlement registry exposed by ParlayMarket
+interface IParlaySettlementRegistry {
+    function conditionSettled(bytes32 conditionId) external view returns (bool);
+}
+
 /**
  * @title FlarePolymarketOracle
  * @notice Oracle for Polymarket resolution data using Polymarket API via Flare Data Connector
@@ -19,20 +24,77 @@ interface IFdcVerification {
 contract FlarePolymarketOracle is IPolymarketOracle {
     
     struct Outcome {
-        bool resolved;
-        uint8 outcome; // 0 = NO, 1 = YES, 2 = INVALID
-        uint256 timestamp;
+        bool proposed;            // An outcome has been written and is in (or past) its challenge period
+        bool disputed;            // A bond has been posted against the proposed outcome
+        uint8 outcome;            // 0 = NO, 1 = YES, 2 = INVALID
+        uint256 timestamp;        // When the outcome was proposed or last settled
+        uint256 disputeDeadline;  // Outcome is final once this passes without an open dispute
+    }
+    
+    struct Dispute {
+        address disputer;
+        uint256 bond;
     }
     
+    struct PendingOverride {
+        bool queued;
+        uint8 outcome;
+        uint256 eta;     // Earliest time the override can be executed
+        string reason;
+    }
+    
+    // Upper bound for the configurable challenge period
+    uint256 public constant MAX_CHALLENGE_PERIOD = 7 days;
+    
+    // Delay between queueing and executing an outcome override
+    uint256 public constant OVERRIDE_TIMELOCK = 1 days;
+    
+    // Bounds for the optional owner action timelock
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    uint256 public constant TIMELOCK_GRACE_PERIOD = 14 days;
+    
     // FDC Verification contract on Flare (Coston2 testnet address)
-    IFdcVerification public immutable fdcVerification;
+    IFdcVerification public fdcVerification;
     
     // Outcome storage: conditionId => Outcome
     mapping(bytes32 => Outcome) public outcomes;
     
+    // Open disputes: conditionId => Dispute
+    mapping(bytes32 => Dispute) public disputes;
+    
+    // Settled dispute bonds awaiting withdrawal: recipient => amount
+    mapping(address => uint256) public pendingBondWithdrawals;
+    
+    // Queued owner overrides: conditionId => PendingOverride
+    mapping(bytes32 => PendingOverride) public pendingOverrides;
+    
+    // ParlayMarket consulted before overriding outcomes that parlays have settled against
+    address public parlayMarket;
+    
+    // Owner action timelock (0 = owner actions execute immediately)
+    uint256 public timelockDelay;
+    
+    // Queued owner actions: keccak256(abi.encode(data, eta)) => queued
+    mapping(bytes32 => bool) public queuedActions;
+    
+    // Challenge period settings
+    uint256 public challengePeriod = 2 hours;
+    uint256 public disputeBond = 1 ether;
+    
     // Access control
     address public owner;
+    address public pendingOwner;
     mapping(address => bool) public attestors;
+    uint256 public attestorCount;
+    
+    // Quorum mode: outcomes need this many agreeing attestor votes (0 or 1 = single attestor)
+    uint256 public quorumThreshold;
+    
+    // Attestor votes: conditionId => attestor => outcome + 1 (0 = not voted)
+    mapping(bytes32 => mapping(address => uint8)) public attestorVotes;
+    
+    // Vote tallies: conditionId => [NO, YES, INVALID]
+    mapping(bytes32 => uint256[3]) private _voteCounts;
     
     // Events
     event OutcomeVerified(
@@ -41,17 +103,114 @@ contract FlarePolymarketOracle is IPolymarketOracle {
         uint256 timestamp,
         address attestor
     );
+    event OutcomeDisputed(bytes32 indexed conditionId, address indexed disputer, uint256 bond);
+    event DisputeSettled(
+        bytes32 indexed conditionId,
+        uint8 outcome,
+        bool disputerWon,
+        address settledBy
+    );
+    event BondWithdrawn(address indexed account, uint256 amount);
+    event OutcomeVoted(
+        bytes32 indexed conditionId,
+        address indexed attestor,
+        uint8 outcome,
+        uint256 votes
+    );
+    event OutcomeContested(bytes32 indexed conditionId);
+    event QuorumThresholdUpdated(uint256 quorumThreshold);
+    event OverrideQueued(bytes32 indexed conditionId, uint8 outcome, uint256 eta, string reason);
+    event OverrideCancelled(bytes32 indexed conditionId);
+    event OutcomeOverridden(
+        bytes32 indexed conditionId,
+        uint8 oldOutcome,
+        uint8 newOutcome,
+        string reason
+    );
+    event ParlayMarketUpdated(address indexed parlayMarket);
+    event ChallengePeriodUpdated(uint256 challengePeriod);
+    event DisputeBondUpdated(uint256 disputeBond);
     event AttestorAdded(address indexed attestor);
     event AttestorRemoved(address indexed attestor);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event FdcVerificationUpdated(address indexed fdcVerification);
+    event TimelockDelayUpdated(uint256 timelockDelay);
+    event ActionQueued(bytes32 indexed actionId, bytes data, uint256 eta);
+    event ActionExecuted(bytes32 indexed actionId, bytes data);
+    event ActionCancelled(bytes32 indexed actionId);
+    
+    // Errors
+    // Access control
+    error NotOwner();
+    error NotPendingOwner();
+    error NotAuthorized();
+    error NotAttestor();
+    error MustBeQueuedInTimelock();
+    
+    // Outcome submission
+    error AlreadyResolved();
+    error AttestationVerificationFailed();
+    error ConditionIdMismatch();
+    error MarketNotClosed();
+    error InvalidOutcome();
+    error LengthMismatch();
+    error QuorumModeDisabled();
+    error AlreadyVoted();
+    
+    // Disputes and overrides
+    error NoProposedOutcome();
+    error NotResolved();
+    error AlreadyDisputed();
+    error NotDisputed();
+    error OutcomeUnderDispute();
+    error ChallengePeriodOver();
+    error IncorrectBondAmount();
+    error OutcomeUnchanged();
+    error ReasonRequired();
+    error ParlaysAlreadySettled();
+    error NoOverrideQueued();
+    
+    // Bond withdrawals
+    error NothingToWithdraw();
+    error WithdrawalFailed();
+    
+    // Admin
+    error InvalidAddress();
+    error InvalidFdcAddress();
+    error AlreadyAttestor();
+    error WouldBreakQuorum();
+    error ThresholdExceedsAttestors();
+    error PeriodTooLong();
+    error BondNotPositive();
+    
+    // Owner action timelock
+    error TimelockDisabled();
+    error DelayTooLong();
+    error AlreadyQueued();
+    error ActionNotQueued();
+    error TimelockNotExpired();
+    error ActionStale();
     
     modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner");
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+    
+    /**
+     * @dev Owner-only actions that must go through the timelock queue while timelockDelay > 0
+     */
+    modifier onlyTimelockedOwner() {
+        if (timelockDelay == 0) {
+            if (msg.sender != owner) revert NotOwner();
+        } else {
+            if (msg.sender != address(this)) revert MustBeQueuedInTimelock();
+        }
         _;
     }
     
     modifier onlyAttestor() {
-        require(attestors[msg.sender] || msg.sender == owner, "Not authorized");
+        if (!attestors[msg.sender] && msg.sender != owner) revert NotAuthorized();
         _;
     }
     
@@ -62,58 +221,82 @@ contract FlarePolymarketOracle is IPolymarketOracle {
      * @dev For Flare mainnet: 0x3A1b3220527aBA427d1e13e4b4c48c31460B4d91
      */
     constructor(address _fdcVerification) {
-        require(_fdcVerification != address(0), "Invalid FDC address");
+        if (_fdcVerification == address(0)) revert InvalidFdcAddress();
         fdcVerification = IFdcVerification(_fdcVerification);
         owner = msg.sender;
         attestors[msg.sender] = true;
+        attestorCount = 1;
+        emit AttestorAdded(msg.sender);
     }
     
     /**
      * @notice Submit verified outcome from FDC attestation
      * @param conditionId The Polymarket condition ID
-     * @param outcome The resolved outcome (0=NO, 1=YES, 2=INVALID)
      * @param attestationData The attestation data from FDC (contains Polymarket API data)
      * @param merkleProof Merkle proof for verification
+     * @dev The outcome is taken from the attested payload, which must match conditionId and be closed.
+     *      A fresh attestation for a disputed condition settles the dispute with the attested outcome.
+     *      In quorum mode the attested outcome counts as the caller's vote.
      */
     function submitOutcome(
         bytes32 conditionId,
-        uint8 outcome,
         bytes calldata attestationData,
         bytes32[] calldata merkleProof
     ) external onlyAttestor {
-        require(outcome <= 2, "Invalid outcome value");
-        require(!outcomes[conditionId].resolved, "Already resolved");
+        Outcome storage current = outcomes[conditionId];
+        if (current.proposed && !current.disputed) revert AlreadyResolved();
         
         // Verify attestation through FDC
         bool verified = fdcVerification.verifyAttestation(attestationData, merkleProof);
-        require(verified, "Attestation verification failed");
+        if (!verified) revert AttestationVerificationFailed();
         
-        // Store the outcome
-        outcomes[conditionId] = Outcome({
-            resolved: true,
-            outcome: outcome,
-            timestamp: block.timestamp
-        });
+        // Bind the stored outcome to the proven payload
+        (bytes32 attestedConditionId, bool closed, uint8 outcome) = _decodeAttestation(attestationData);
+        if (attestedConditionId != conditionId) revert ConditionIdMismatch();
+        if (!closed) revert MarketNotClosed();
+        if (outcome > 2) revert InvalidOutcome();
         
-        emit OutcomeVerified(conditionId, outcome, block.timestamp, msg.sender);
+        if (current.disputed) {
+            _settleDispute(conditionId, outcome);
+            return;
+        }
+        
+        if (quorumThreshold > 1) {
+            _castVote(conditionId, outcome);
+            return;
+        }
+        
+        _proposeOutcome(conditionId, outcome);
+    }
+    
+    /**
+     * @notice Vote on an outcome in quorum mode
+     * @param conditionId The Polymarket condition ID
+     * @param outcome The outcome voted for (0=NO, 1=YES, 2=INVALID)
+     * @dev The outcome is proposed once quorumThreshold attestors agree.
+     *      Conflicting votes move the condition into the disputed state.
+     */
+    function voteOutcome(bytes32 conditionId, uint8 outcome) external onlyAttestor {
+        if (quorumThreshold <= 1) revert QuorumModeDisabled();
+        if (outcome > 2) revert InvalidOutcome();
+        
+        _castVote(conditionId, outcome);
     }
     
     /**
      * @notice Submit outcome directly (for owner/testing)
      * @param conditionId The Polymarket condition ID
      * @param outcome The resolved outcome (0=NO, 1=YES, 2=INVALID)
-     * @dev Use this for testing or manual intervention when FDC attestation is unavailable
+     * @dev Use this for testing or manual intervention when FDC attestation is unavailable.
+     *      The outcome still goes through the challenge period. Use queueOverride to change
+     *      an outcome that has already been written.
      */
-    function setOutcomeDirect(bytes32 conditionId, uint8 outcome) external onlyOwner {
-        require(outcome <= 2, "Invalid outcome value");
+    function setOutcomeDirect(bytes32 conditionId, uint8 outcome) external onlyTimelockedOwner {
+        if (outcome > 2) revert InvalidOutcome();
+        if (outcomes[conditionId].proposed) revert AlreadyResolved();
+        if (outcomes[conditionId].disputed) revert OutcomeUnderDispute();
         
-        outcomes[conditionId] = Outcome({
-            resolved: true,
-            outcome: outcome,
-            timestamp: block.timestamp
-        });
-        
-        emit OutcomeVerified(conditionId, outcome, block.timestamp, msg.sender);
+        _proposeOutcome(conditionId, outcome);
     }
     
     /**
@@ -124,26 +307,177 @@ contract FlarePolymarketOracle is IPolymarketOracle {
     function setOutcomesBatch(
         bytes32[] calldata conditionIds, 
         uint8[] calldata _outcomes
-    ) external onlyOwner {
-        require(conditionIds.length == _outcomes.length, "Length mismatch");
+    ) external onlyTimelockedOwner {
+        if (conditionIds.length != _outcomes.length) revert LengthMismatch();
         
         for (uint256 i = 0; i < conditionIds.length; i++) {
-            require(_outcomes[i] <= 2, "Invalid outcome value");
+            if (_outcomes[i] > 2) revert InvalidOutcome();
+            if (outcomes[conditionIds[i]].proposed) revert AlreadyResolved();
+            if (outcomes[conditionIds[i]].disputed) revert OutcomeUnderDispute();
             
-            outcomes[conditionIds[i]] = Outcome({
-                resolved: true,
-                outcome: _outcomes[i],
-                timestamp: block.timestamp
-            });
-            
-            emit OutcomeVerified(conditionIds[i], _outcomes[i], block.timestamp, msg.sender);
+            _proposeOutcome(conditionIds[i], _outcomes[i]);
         }
     }
     
+    /**
+     * @notice Queue an override of an already written outcome
+     * @param conditionId The condition ID to override
+     * @param outcome The replacement outcome (0=NO, 1=YES, 2=INVALID)
+     * @param reason Public explanation for the override
+     * @dev Executable after OVERRIDE_TIMELOCK, and only while no parlay has settled against the condition
+     */
+    function queueOverride(
+        bytes32 conditionId,
+        uint8 outcome,
+        string calldata reason
+    ) external onlyOwner {
+        Outcome memory o = outcomes[conditionId];
+        if (!o.proposed) revert NotResolved();
+        if (o.disputed) revert OutcomeUnderDispute();
+        if (outcome > 2) revert InvalidOutcome();
+        if (outcome == o.outcome) revert OutcomeUnchanged();
+        if (bytes(reason).length == 0) revert ReasonRequired();
+        if (_isSettledAgainst(conditionId)) revert ParlaysAlreadySettled();
+        
+        uint256 eta = block.timestamp + OVERRIDE_TIMELOCK;
+        pendingOverrides[conditionId] = PendingOverride({
+            queued: true,
+            outcome: outcome,
+            eta: eta,
+            reason: reason
+        });
+        
+        emit OverrideQueued(conditionId, outcome, eta, reason);
+    }
+    
+    /**
+     * @notice Execute a queued override once its timelock has passed
+     * @param conditionId The condition ID to override
+     * @dev The overridden outcome is final immediately; the timelock served as its notice period
+     */
+    function executeOverride(bytes32 conditionId) external onlyOwner {
+        PendingOverride memory pending = pendingOverrides[conditionId];
+        if (!pending.queued) revert NoOverrideQueued();
+        if (block.timestamp < pending.eta) revert TimelockNotExpired();
+        if (_isSettledAgainst(conditionId)) revert ParlaysAlreadySettled();
+        
+        Outcome storage o = outcomes[conditionId];
+        if (o.disputed) revert OutcomeUnderDispute();
+        
+        uint8 oldOutcome = o.outcome;
+        o.outcome = pending.outcome;
+        o.timestamp = block.timestamp;
+        o.disputeDeadline = block.timestamp;
+        delete pendingOverrides[conditionId];
+        
+        emit OutcomeOverridden(conditionId, oldOutcome, pending.outcome, pending.reason);
+    }
+    
+    /**
+     * @notice Cancel a queued override
+     * @param conditionId The condition ID
+     */
+    function cancelOverride(bytes32 conditionId) external onlyOwner {
+        if (!pendingOverrides[conditionId].queued) revert NoOverrideQueued();
+        delete pendingOverrides[conditionId];
+        emit OverrideCancelled(conditionId);
+    }
+    
+    /**
+     * @notice Set the ParlayMarket whose settlements block overrides
+     * @param _parlayMarket ParlayMarket address
+     */
+    function setParlayMarket(address _parlayMarket) external onlyTimelockedOwner {
+        if (_parlayMarket == address(0)) revert InvalidAddress();
+        parlayMarket = _parlayMarket;
+        emit ParlayMarketUpdated(_parlayMarket);
+    }
+    
+    /**
+     * @notice Dispute a proposed outcome during its challenge period
+     * @param conditionId The condition ID to dispute
+     * @dev Requires posting exactly disputeBond. The bond is returned if the settled
+     *      outcome differs from the proposal, otherwise it is forfeited to the owner.
+     *      Either way it is credited and claimed with withdrawBond.
+     */
+    function dispute(bytes32 conditionId) external payable {
+        Outcome storage o = outcomes[conditionId];
+        if (!o.proposed) revert NoProposedOutcome();
+        if (o.disputed) revert AlreadyDisputed();
+        if (block.timestamp >= o.disputeDeadline) revert ChallengePeriodOver();
+        if (msg.value != disputeBond) revert IncorrectBondAmount();
+        
+        o.disputed = true;
+        disputes[conditionId] = Dispute({
+            disputer: msg.sender,
+            bond: msg.value
+        });
+        
+        emit OutcomeDisputed(conditionId, msg.sender, msg.value);
+    }
+    
+    /**
+     * @notice Settle an open dispute (owner)
+     * @param conditionId The disputed condition ID
+     * @param outcome The correct outcome (0=NO, 1=YES, 2=INVALID)
+     * @dev Use submitOutcome with a fresh attestation to settle through FDC instead
+     */
+    function settleDispute(bytes32 conditionId, uint8 outcome) external onlyOwner {
+        if (!outcomes[conditionId].disputed) revert NotDisputed();
+        if (outcome > 2) revert InvalidOutcome();
+        
+        _settleDispute(conditionId, outcome);
+    }
+    
+    /**
+     * @notice Withdraw dispute bonds credited to the caller by settled disputes
+     */
+    function withdrawBond() external {
+        uint256 amount = pendingBondWithdrawals[msg.sender];
+        if (amount == 0) revert NothingToWithdraw();
+        
+        pendingBondWithdrawals[msg.sender] = 0;
+        
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        if (!success) revert WithdrawalFailed();
+        
+        emit BondWithdrawn(msg.sender, amount);
+    }
+    
+    /**
+     * @notice Set the number of agreeing attestor votes required to propose an outcome
+     * @param _quorumThreshold Required votes (0 or 1 disables quorum mode)
+     */
+    function setQuorumThreshold(uint256 _quorumThreshold) external onlyTimelockedOwner {
+        if (_quorumThreshold > attestorCount) revert ThresholdExceedsAttestors();
+        quorumThreshold = _quorumThreshold;
+        emit QuorumThresholdUpdated(_quorumThreshold);
+    }
+    
+    /**
+     * @notice Set the challenge period applied to newly proposed outcomes
+     * @param _challengePeriod Period in seconds (0 makes outcomes final immediately)
+     */
+    function setChallengePeriod(uint256 _challengePeriod) external onlyTimelockedOwner {
+        if (_challengePeriod > MAX_CHALLENGE_PERIOD) revert PeriodTooLong();
+        challengePeriod = _challengePeriod;
+        emit ChallengePeriodUpdated(_challengePeriod);
+    }
+    
+    /**
+     * @notice Set the bond required to dispute an outcome
+     * @param _disputeBond Bond amount in wei
+     */
+    function setDisputeBond(uint256 _disputeBond) external onlyTimelockedOwner {
+        if (_disputeBond == 0) revert BondNotPositive();
+        disputeBond = _disputeBond;
+        emit DisputeBondUpdated(_disputeBond);
+    }
+    
     /**
      * @notice Get the resolved outcome for a condition ID
      * @param conditionId The condition ID
-     * @return resolved Whether the outcome has been resolved
+     * @return resolved Whether the outcome is final (challenge period over, no open dispute)
      * @return outcome The resolved outcome (0=NO, 1=YES, 2=INVALID)
      */
     function getOutcome(bytes32 conditionId) 
@@ -153,24 +487,34 @@ contract FlarePolymarketOracle is IPolymarketOracle {
         returns (bool resolved, uint8 outcome) 
     {
         Outcome memory o = outcomes[conditionId];
-        return (o.resolved, o.outcome);
+        return (_isFinal(o), o.outcome);
     }
     
     /**
      * @notice Check if a market is resolved
      * @param conditionId The condition ID
-     * @return Whether the outcome has been resolved
+     * @return Whether the outcome is final
      */
     function isResolved(bytes32 conditionId) external view override returns (bool) {
-        return outcomes[conditionId].resolved;
+        return _isFinal(outcomes[conditionId]);
+    }
+    
+    /**
+     * @notice Check if a market has an outcome on record, final or not
+     * @param conditionId The condition ID
+     * @return Whether an outcome is proposed, disputed or final
+     */
+    function isOutcomeProposed(bytes32 conditionId) external view override returns (bool) {
+        Outcome storage o = outcomes[conditionId];
+        return o.proposed || o.disputed;
     }
     
     /**
      * @notice Get full outcome details including timestamp
      * @param conditionId The condition ID
-     * @return resolved Whether resolved
+     * @return resolved Whether the outcome is final
      * @return outcome The outcome value
-     * @return timestamp When it was resolved
+     * @return timestamp When it was proposed or last settled
      */
     function getOutcomeDetails(bytes32 conditionId) 
         external 
@@ -178,17 +522,160 @@ contract FlarePolymarketOracle is IPolymarketOracle {
         returns (bool resolved, uint8 outcome, uint256 timestamp) 
     {
         Outcome memory o = outcomes[conditionId];
-        return (o.resolved, o.outcome, o.timestamp);
+        return (_isFinal(o), o.outcome, o.timestamp);
+    }
+    
+    /**
+     * @notice Get attestor vote tallies for a condition ID
+     * @param conditionId The condition ID
+     * @return noVotes Votes for NO
+     * @return yesVotes Votes for YES
+     * @return invalidVotes Votes for INVALID
+     */
+    function getVotes(bytes32 conditionId) 
+        external 
+        view 
+        returns (uint256 noVotes, uint256 yesVotes, uint256 invalidVotes) 
+    {
+        uint256[3] memory counts = _voteCounts[conditionId];
+        return (counts[0], counts[1], counts[2]);
+    }
+    
+    /**
+     * @notice Get the proposal state for a condition ID, including pending outcomes
+     * @param conditionId The condition ID
+     * @return proposed Whether an outcome has been proposed
+     * @return outcome The proposed outcome value
+     * @return disputeDeadline Timestamp after which an undisputed outcome is final
+     * @return disputed Whether a dispute is open
+     * @return disputer Address that posted the open dispute bond
+     */
+    function getProposal(bytes32 conditionId) 
+        external 
+        view 
+        returns (
+            bool proposed,
+            uint8 outcome,
+            uint256 disputeDeadline,
+            bool disputed,
+            address disputer
+        ) 
+    {
+        Outcome memory o = outcomes[conditionId];
+        return (o.proposed, o.outcome, o.disputeDeadline, o.disputed, disputes[conditionId].disputer);
+    }
+    
+    /**
+     * @notice Store an outcome and open its challenge period
+     */
+    function _proposeOutcome(bytes32 conditionId, uint8 outcome) internal {
+        outcomes[conditionId] = Outcome({
+            proposed: true,
+            disputed: false,
+            outcome: outcome,
+            timestamp: block.timestamp,
+            disputeDeadline: block.timestamp + challengePeriod
+        });
+        
+        emit OutcomeVerified(conditionId, outcome, block.timestamp, msg.sender);
+    }
+    
+    /**
+     * @notice Record an attestor vote and propose or contest the outcome
+     */
+    function _castVote(bytes32 conditionId, uint8 outcome) internal {
+        Outcome storage o = outcomes[conditionId];
+        if (!attestors[msg.sender]) revert NotAttestor();
+        if (o.proposed) revert AlreadyResolved();
+        if (o.disputed) revert OutcomeUnderDispute();
+        if (attestorVotes[conditionId][msg.sender] != 0) revert AlreadyVoted();
+        
+        attestorVotes[conditionId][msg.sender] = outcome + 1;
+        uint256[3] storage counts = _voteCounts[conditionId];
+        counts[outcome] += 1;
+        
+        emit OutcomeVoted(conditionId, msg.sender, outcome, counts[outcome]);
+        
+        // Any vote for a different outcome contests the condition
+        if (counts[0] + counts[1] + counts[2] > counts[outcome]) {
+            o.disputed = true;
+            emit OutcomeContested(conditionId);
+            return;
+        }
+        
+        if (counts[outcome] >= quorumThreshold) {
+            _proposeOutcome(conditionId, outcome);
+        }
+    }
+    
+    /**
+     * @notice Finalize a disputed outcome and credit the dispute bond
+     * @dev Bond is refunded if the proposal is overturned, otherwise forfeited to the owner.
+     *      It is credited rather than sent, so a recipient that rejects FLR can't block settlement.
+     *      Also settles conditions contested by conflicting quorum votes.
+     */
+    function _settleDispute(bytes32 conditionId, uint8 outcome) internal {
+        Outcome storage o = outcomes[conditionId];
+        Dispute memory d = disputes[conditionId];
+        bool disputerWon = outcome != o.outcome;
+        
+        o.proposed = true;
+        o.disputed = false;
+        o.outcome = outcome;
+        o.timestamp = block.timestamp;
+        o.disputeDeadline = block.timestamp;
+        delete disputes[conditionId];
+        
+        // Contested quorum votes carry no bond
+        if (d.bond > 0) {
+            pendingBondWithdrawals[disputerWon ? d.disputer : owner] += d.bond;
+        }
+        
+        emit DisputeSettled(conditionId, outcome, disputerWon, msg.sender);
+    }
+    
+    /**
+     * @notice Whether any parlay has been resolved against a condition
+     */
+    function _isSettledAgainst(bytes32 conditionId) internal view returns (bool) {
+        if (parlayMarket == address(0)) {
+            return false;
+        }
+        return IParlaySettlementRegistry(parlayMarket).conditionSettled(conditionId);
+    }
+    
+    /**
+     * @notice Whether a stored outcome is final
+     */
+    function _isFinal(Outcome memory o) internal view returns (bool) {
+        return o.proposed && !o.disputed && block.timestamp >= o.disputeDeadline;
+    }
+    
+    /**
+     * @notice Decode the Polymarket API response carried in an attestation
+     * @dev Layout matches encodePolymarketResponse in lib/fdc-encoder.ts:
+     *      (bytes32 conditionId, bool closed, uint8 outcome, uint256 resolvedAt, string question, bytes32 apiDataHash)
+     */
+    function _decodeAttestation(bytes calldata attestationData) 
+        internal 
+        pure 
+        returns (bytes32 conditionId, bool closed, uint8 outcome) 
+    {
+        (conditionId, closed, outcome, , , ) = abi.decode(
+            attestationData,
+            (bytes32, bool, uint8, uint256, string, bytes32)
+        );
     }
     
     /**
      * @notice Add an authorized attestor
      * @param attestor Address to authorize
      */
-    function addAttestor(address attestor) external onlyOwner {
-        require(attestor != address(0), "Invalid address");
-        require(!attestors[attestor], "Already attestor");
+    function addAttestor(address attestor) external onlyTimelockedOwner {
+        if (attestor == address(0)) revert InvalidAddress();
+        if (attestors[attestor]) revert AlreadyAttestor();
         attestors[attestor] = true;
+        attestorCount += 1;
         emit AttestorAdded(attestor);
     }
     
@@ -196,21 +683,110 @@ contract FlarePolymarketOracle is IPolymarketOracle {
      * @notice Remove an authorized attestor
      * @param attestor Address to remove
      */
-    function removeAttestor(address attestor) external onlyOwner {
-        require(attestors[attestor], "Not an attestor");
+    function removeAttestor(address attestor) external onlyTimelockedOwner {
+        if (!attestors[attestor]) revert NotAttestor();
+        if (attestorCount - 1 < quorumThreshold) revert WouldBreakQuorum();
         attestors[attestor] = false;
+        attestorCount -= 1;
         emit AttestorRemoved(attestor);
     }
     
     /**
-     * @notice Transfer ownership
+     * @notice Start an ownership transfer; the new owner must call acceptOwnership
      * @param newOwner New owner address
      */
-    function transferOwnership(address newOwner) external onlyOwner {
-        require(newOwner != address(0), "Invalid address");
+    function transferOwnership(address newOwner) external onlyTimelockedOwner {
+        if (newOwner == address(0)) revert InvalidAddress();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+    
+    /**
+     * @notice Accept a pending ownership transfer
+     */
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
         address oldOwner = owner;
-        owner = newOwner;
-        attestors[newOwner] = true;
-        emit OwnershipTransferred(oldOwner, newOwner);
+        owner = msg.sender;
+        pendingOwner = address(0);
+        if (!attestors[msg.sender]) {
+            attestors[msg.sender] = true;
+            attestorCount += 1;
+            emit AttestorAdded(msg.sender);
+        }
+        emit OwnershipTransferred(oldOwner, msg.sender);
     }
-}
+    
+    /**
+     * @notice Change the FDC Verification contract
+     * @param _fdcVerification Address of FDC Verification contract
+     */
+    function setFdcVerification(address _fdcVerification) external onlyTimelockedOwner {
+        if (_fdcVerification == address(0)) revert InvalidFdcAddress();
+        fdcVerification = IFdcVerification(_fdcVerification);
+        emit FdcVerificationUpdated(_fdcVerification);
+    }
+    
+    // Owner action timelock
+    
+    /**
+     * @notice Set the delay for queued owner actions
+     * @param _timelockDelay Delay in seconds (0 disables the timelock)
+     * @dev Enabling is immediate; once enabled, changing the delay must itself be queued
+     */
+    function setTimelockDelay(uint256 _timelockDelay) external onlyTimelockedOwner {
+        if (_timelockDelay > MAX_TIMELOCK_DELAY) revert DelayTooLong();
+        timelockDelay = _timelockDelay;
+        emit TimelockDelayUpdated(_timelockDelay);
+    }
+    
+    /**
+     * @notice Queue an owner action for execution after the timelock delay
+     * @param data ABI-encoded call to one of this contract's timelocked functions
+     * @return actionId Identifier of the queued action
+     */
+    function queueAction(bytes calldata data) external onlyOwner returns (bytes32 actionId) {
+        if (timelockDelay == 0) revert TimelockDisabled();
+        uint256 eta = block.timestamp + timelockDelay;
+        actionId = keccak256(abi.encode(data, eta));
+        if (queuedActions[actionId]) revert AlreadyQueued();
+        
+        queuedActions[actionId] = true;
+        emit ActionQueued(actionId, data, eta);
+    }
+    
+    /**
+     * @notice Execute a queued owner action
+     * @param data The queued call data
+     * @param eta The execution time returned when it was queued
+     */
+    function executeAction(bytes calldata data, uint256 eta) external onlyOwner {
+        bytes32 actionId = keccak256(abi.encode(data, eta));
+        if (!queuedActions[actionId]) revert ActionNotQueued();
+        if (block.timestamp < eta) revert TimelockNotExpired();
+        if (block.timestamp > eta + TIMELOCK_GRACE_PERIOD) revert ActionStale();
+        
+        delete queuedActions[actionId];
+        
+        (bool success, bytes memory reason) = address(this).call(data);
+        if (!success) {
+            assembly {
+                revert(add(32, reason), mload(reason))
+            }
+        }
+        
+        emit ActionExecuted(actionId, data);
+    }
+    
+    /**
+     * @notice Cancel a queued owner action
+     * @param data The queued call data
+     * @param eta The execution time returned when it was queued
+     */
+    function cancelAction(bytes calldata data, uint256 eta) external onlyOwner {
+        bytes32 actionId = keccak256(abi.encode(data, eta));
+        if (!queuedActions[actionId]) revert ActionNotQueued();
+        delete queuedActions[actionId];
+        emit ActionCancelled(actionId);
+    }
+}
\ No newline at end of file
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.20;
 
 import "./interfaces/IPolymarketOracle.sol";
+import "./interfaces/IERC20.sol";
 import "./ParlayToken.sol";
 
 /**
@@ -10,37 +11,162 @@ import "./ParlayToken.sol";
  */
 contract ParlayMarket {
     enum ParlayStatus {
-        Created,    // Maker deposited, waiting for taker
-        Filled,     // Taker deposited, waiting for resolution
+        Created,    // Maker deposited, open for (further) taker fills
+        Filled,     // Fully filled or remainder cancelled, waiting for resolution
         Resolved,   // Settled with winner determined
         Cancelled,  // Cancelled before fill
-        Invalid     // Invalid due to underlying market issues
+        Invalid,    // Invalid due to underlying market issues
+        Stale       // Not resolved by its resolution deadline, stakes refunded
+    }
+    
+    // What happens when a leg resolves INVALID (outcome 2)
+    enum VoidPolicy {
+        RefundAll,      // Invalidate the whole parlay and refund both sides
+        DropLeg,        // Drop void legs and settle on the remaining legs
+        DropLegReprice  // Drop void legs and shrink the NO stake using leg probabilities stored at creation
+    }
+    
+    // When the maker may cancel (or update) an open parlay
+    enum CancelMode {
+        Anytime,            // Cancel or update the unfilled part at any time
+        LockedUntilExpiry   // Offer stays fillable on its terms until expiry, so takers can rely on it
     }
     
     struct Parlay {
         uint256 id;
         address maker;
-        address taker;
+        address taker;              // First taker
         string name;                // Name of the parlay
         bytes32[] conditionIds;     // Polymarket condition IDs
         uint8[] requiredOutcomes;   // Required outcome for each market (1 = YES)
         string[] legNames;          // Names for each market leg
         string[] imageUrls;          // Image URLs for each market leg
-        uint256 makerStake;         // Maker's collateral in FLR
-        uint256 takerStake;         // Taker's collateral in FLR
+        uint256 makerStake;         // Maker's collateral in the parlay's collateral token
+        uint256 takerStake;         // Total taker collateral offered, fillable in parts
         uint256 expiry;             // Timestamp after which unfilled parlays can be cancelled
         ParlayStatus status;
         bool makerIsYes;            // True if maker takes YES side
-        uint256 yesTokenId;         // Token ID for YES position
-        uint256 noTokenId;          // Token ID for NO position
+        uint256 yesTokenId;         // Token ID for the first fill's YES position
+        uint256 noTokenId;          // Token ID for the first fill's NO position
+        address collateralToken;    // ERC-20 collateral, or address(0) for native FLR
+        uint256 filledTakerStake;   // Taker collateral filled so far
+        uint256 filledMakerStake;   // Maker collateral matched by fills so far
+        VoidPolicy voidPolicy;      // Handling of legs that resolve INVALID
+        uint16[] legProbabilitiesBps; // Implied probability of each leg hitting, for DropLegReprice
+        uint256 minCorrectLegs;     // YES wins when at least this many legs match (all legs for a standard parlay)
+        uint256 roundRobinId;       // Round robin this parlay was spawned by, or 0
+        uint256[] legFillDeadlines; // Per-leg "fill-by" cutoffs (0 = none); empty when no leg has one
+        uint256 resolutionDeadline; // After this, a filled parlay that was never resolved can be refunded
+        uint256 resolverBounty;     // Escrowed by the maker and paid to whoever settles the parlay
+        address allowedTaker;       // Only this address can fill, or address(0) for anyone
+        bytes32 takerAllowlistRoot; // Merkle root of addresses allowed to fill, or 0 for anyone
+        CancelMode cancelMode;      // Whether the maker can cancel before expiry
+    }
+    
+    // Parlay terms signed off-chain by a maker (EIP-712) and filled in one transaction by a taker
+    struct ParlayOrder {
+        address maker;
+        string name;
+        bytes32[] conditionIds;
+        uint8[] requiredOutcomes;
+        string[] legNames;
+        string[] imageUrls;
+        address collateralToken;
+        uint256 makerStake;
+        uint256 takerStake;
+        uint256 expiry;
+        uint256 resolutionDeadline;
+        uint256 resolverBounty;
+        bool makerIsYes;
+        uint256 minCorrectLegs;
+        uint8 voidPolicy;
+        uint16[] legProbabilitiesBps;
+        uint256[] legFillDeadlines;
+        uint256 nonce;
+    }
+    
+    // A single taker fill, matched pro rata against the maker's stake
+    struct Fill {
+        address taker;
+        uint256 takerStake;
+        uint256 makerStake;
+        uint256 yesTokenId;
+        uint256 noTokenId;
+    }
+    
+    enum CounterStatus {
+        Open,       // Taker stake escrowed, waiting for the maker
+        Accepted,   // Maker filled the parlay at the countered odds
+        Refunded    // Taker stake returned
+    }
+    
+    // A taker's escrowed proposal to take the rest of a parlay for a different taker stake
+    struct Counter {
+        address taker;
+        uint256 takerStake;
+        uint256 makerStake;         // Unmatched maker stake when proposed; the counter lapses if it changes
+        uint256 proposedAt;
+        CounterStatus status;
     }
     
+    // EIP-712
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    bytes32 public constant PARLAY_ORDER_TYPEHASH = keccak256(
+        "ParlayOrder(address maker,string name,bytes32[] conditionIds,uint8[] requiredOutcomes,string[] legNames,string[] imageUrls,address collateralToken,uint256 makerStake,uint256 takerStake,uint256 expiry,uint256 resolutionDeadline,uint256 resolverBounty,bool makerIsYes,uint256 minCorrectLegs,uint8 voidPolicy,uint16[] legProbabilitiesBps,uint256[] legFillDeadlines,uint256 nonce)"
+    );
+    
+    // Protocol fee limits
+    uint256 public constant MAX_PROTOCOL_FEE_BPS = 500; // 5%
+    uint256 private constant BPS_DENOMINATOR = 10000;
+    uint256 private constant PRICE_PRECISION = 1e18;
+    
+    // Upper bound on parlays spawned by one round robin, to keep creation within the block gas limit
+    uint256 public constant MAX_ROUND_ROBIN_PARLAYS = 20;
+    
+    // How long a counter-offer stays locked before its taker can take the stake back
+    uint256 public constant COUNTER_TIMEOUT = 1 days;
+    
     // State
     uint256 private _parlayIdCounter;
-    mapping(uint256 => Parlay) public parlays;
+    mapping(uint256 => Parlay) internal parlays;
+    mapping(uint256 => Fill[]) private _fills;
+    mapping(uint256 => Counter[]) private _counters;
+    
+    // Round robins: parlays spawned together from every k-sized combination of one leg set
+    uint256 private _roundRobinIdCounter;
+    mapping(uint256 => uint256[]) private _roundRobinParlays;
+    
+    // Conditions that at least one parlay has been settled against (read by the oracle to block overrides)
+    mapping(bytes32 => bool) public conditionSettled;
+    
+    // Credited native FLR balances claimable through withdraw()
+    mapping(address => uint256) public pendingWithdrawals;
+    
+    // Credited ERC-20 balances claimable through withdrawToken(): token => account => amount
+    mapping(address => mapping(address => uint256)) public pendingTokenWithdrawals;
+    
+    // ERC-20 tokens accepted as collateral
+    mapping(address => bool) public collateralTokens;
+    
+    // Signed order nonces: individually used/cancelled, plus a per-maker floor below which all are void
+    mapping(address => mapping(uint256 => bool)) public nonceUsed;
+    mapping(address => uint256) public minValidNonce;
+    // EIP-712 domain separator, computed once for the chain the market is deployed on
+    bytes32 private immutable _domainSeparator;
+    
     IPolymarketOracle public oracle;
     ParlayToken public parlayToken;
     
+    // Access control
+    address public owner;
+    address public pendingOwner;
+    
+    // Fee taken from the winner's payout on resolution, in basis points
+    uint256 public protocolFeeBps;
+    address public feeRecipient;
+    
     // Events
     event ParlayCreated(
         uint256 indexed parlayId,
@@ -53,30 +179,188 @@ contract ParlayMarket {
         uint256 makerStake,
         uint256 takerStake,
         uint256 expiry,
-        bool makerIsYes
+        bool makerIsYes,
+        address collateralToken
+    );
+    
+    event RoundRobinCreated(
+        uint256 indexed roundRobinId,
+        address indexed maker,
+        uint256 legsPerParlay,
+        uint256[] parlayIds
     );
     
+    event ParlayUpdated(uint256 indexed parlayId, uint256 makerStake, uint256 takerStake, uint256 expiry);
+    
     event ParlayFilled(
         uint256 indexed parlayId,
         address indexed taker,
         uint256 yesTokenId,
-        uint256 noTokenId
+        uint256 noTokenId,
+        uint256 takerStake,
+        uint256 makerStake
     );
     
+    event CounterProposed(uint256 indexed parlayId, uint256 counterId, address indexed taker, uint256 takerStake);
+    
+    event CounterAccepted(uint256 indexed parlayId, uint256 counterId, address indexed taker, uint256 takerStake);
+    
+    event CounterRefunded(uint256 indexed parlayId, uint256 counterId, address indexed taker, uint256 takerStake);
+    
     event ParlayCancelled(uint256 indexed parlayId);
     
+    event RemainderCancelled(uint256 indexed parlayId, uint256 makerRefund);
+    
     event ParlayResolved(
         uint256 indexed parlayId,
         bool yesWins,
+        uint256 payout,
+        uint256 protocolFee,
+        uint256[] voidedLegs
+    );
+    
+    event PositionSettled(
+        uint256 indexed parlayId,
+        uint256 fillIndex,
         address winner,
         uint256 payout
     );
     
+    event PositionRepriced(uint256 indexed parlayId, uint256 fillIndex, uint256 noRefund);
+    
     event ParlayInvalidated(uint256 indexed parlayId);
     
-    constructor(address _oracle) {
+    event ParlaySettledEarly(uint256 indexed parlayId);
+    
+    event StaleParlayRefunded(uint256 indexed parlayId, address indexed caller);
+    
+    event ResolverBountyPaid(uint256 indexed parlayId, address indexed resolver, uint256 amount);
+    
+    event WithdrawalCredited(address indexed account, uint256 amount);
+    
+    event Withdrawn(address indexed account, uint256 amount);
+    
+    event TokenWithdrawalCredited(address indexed token, address indexed account, uint256 amount);
+    
+    event TokenWithdrawn(address indexed token, address indexed account, uint256 amount);
+    
+    event CollateralTokenUpdated(address indexed token, bool allowed);
+    
+    event SignedOrderFilled(bytes32 indexed orderHash, uint256 indexed parlayId, address indexed maker, address taker);
+    
+    event OrderCancelled(address indexed maker, uint256 nonce);
+    
+    event AllOrdersCancelled(address indexed maker, uint256 minValidNonce);
+    
+    event ProtocolFeeUpdated(uint256 oldFeeBps, uint256 newFeeBps);
+    
+    event FeeRecipientUpdated(address indexed oldRecipient, address indexed newRecipient);
+    
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    
+    // Errors
+    // Parlay creation
+    error NoMarketsSpecified();
+    error LengthMismatch();
+    error LegNamesLengthMismatch();
+    error ImageUrlsLengthMismatch();
+    error InvalidOutcome();
+    error ExpiryInPast();
+    error ResolutionDeadlineBeforeExpiry();
+    error NoStakeProvided();
+    error TakerStakeNotPositive();
+    error InvalidMinCorrectLegs();
+    error InvalidVoidPolicy();
+    error RepricingNeedsEveryLeg();
+    error ProbabilitiesLengthMismatch();
+    error InvalidLegProbability();
+    error ProbabilitiesOnlyForRepricing();
+    error FillDeadlinesLengthMismatch();
+    error FillDeadlineInPast();
+    error InvalidLegsPerParlay();
+    error TooManyCombinations();
+    
+    // Signed orders
+    error SignedOrderNeedsERC20Collateral();
+    error OrderCancelledOrUsed();
+    error InvalidSignature();
+    error InvalidSignatureLength();
+    error NonceAlreadyUsed();
+    error NonceMustIncrease();
+    
+    // Fills
+    error TermsChanged();
+    error NotAllowedTaker();
+    error NotOnTakerAllowlist();
+    error ParlayNotAvailable();
+    error ParlayExpired();
+    error CannotFillOwnParlay();
+    error FillAmountNotPositive();
+    error ExceedsUnfilledAmount();
+    error FillAmountTooSmall();
+    error LegOutcomeProposed();
+    error LegClosedForFills();
+    
+    // Counter-offers
+    error OnlyMakerCanAccept();
+    error CounterNotOpen();
+    error CounterTermsChanged();
+    error OnlyCounterTaker();
+    error CounterStillLocked();
+    
+    // Cancellation and settlement
+    error ParlayNotCancellable();
+    error OnlyMakerCanCancel();
+    error ParlayNotUpdatable();
+    error OfferLockedUntilExpiry();
+    error OnlyMakerCanUpdate();
+    error StakeBelowFilled();
+    error ParlayNotFilled();
+    error NotAllMarketsResolved();
+    error VoidLegRefundsParlay();
+    error YesCanStillWin();
+    error ResolutionDeadlineNotPassed();
+    error OnlyMakerOrHolder();
+    error ParlayAlreadyDecided();
+    
+    // Collateral and withdrawals
+    error IncorrectStakeAmount();
+    error CollateralNotAllowed();
+    error NativeValueNotAccepted();
+    error TokenTransferFailed();
+    error NothingToWithdraw();
+    error WithdrawalFailed();
+    
+    // Admin
+    error NotOwner();
+    error NotPendingOwner();
+    error InvalidToken();
+    error InvalidAddress();
+    error FeeTooHigh();
+    
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+    
+    /**
+     * @param _oracle Oracle the parlay legs are resolved against
+     * @param _renderer ParlayTokenRenderer that builds position token metadata
+     */
+    constructor(address _oracle, address _renderer) {
         oracle = IPolymarketOracle(_oracle);
-        parlayToken = new ParlayToken(address(this));
+        _domainSeparator = keccak256(abi.encode(
+            EIP712_DOMAIN_TYPEHASH,
+            keccak256(bytes("ParlayMarket")),
+            keccak256(bytes("1")),
+            block.chainid,
+            address(this)
+        ));
+        parlayToken = new ParlayToken(address(this), _renderer);
+        owner = msg.sender;
+        feeRecipient = msg.sender;
     }
     
     /**
@@ -86,9 +370,21 @@ contract ParlayMarket {
      * @param requiredOutcomes Required outcome for each market (1 = YES wins parlay)
      * @param legNames Array of names for each market leg
      * @param imageUrls Array of image URLs for each market leg
-     * @param takerStake Amount taker must provide
-     * @param expiry Timestamp after which parlay can be cancelled if unfilled
+     * @param collateralToken Whitelisted ERC-20 collateral, or address(0) for native FLR
+     * @param makerStake Amount the maker deposits (must equal msg.value for native FLR)
+     * @param takerStake Total amount takers can provide, in one or more fills
+     * @param expiry Timestamp after which the parlay can no longer be filled
+     * @param resolutionDeadline Timestamp after which a filled but unresolved parlay can be refunded
+     * @param resolverBounty Extra collateral escrowed by the maker and paid to whoever resolves the parlay (0 for none)
      * @param makerIsYes Whether maker takes YES side (true) or NO side (false)
+     * @param minCorrectLegs Legs that must match for YES to win (conditionIds.length for "every leg must hit")
+     * @param voidPolicy How legs that resolve INVALID are handled
+     * @param legProbabilitiesBps Per-leg implied probabilities (1-10000) for DropLegReprice, empty otherwise
+     * @param legFillDeadlines Per-leg timestamps after which the parlay can't be filled (0 = none), or empty
+     * @param allowedTaker Make the offer private to this taker, or address(0)
+     * @param takerAllowlistRoot Make the offer private to a Merkle allowlist of takers, or 0
+     * @param cancelMode Whether the maker can cancel or update the offer before expiry
+     * @dev ERC-20 stakes are pulled with transferFrom, so the maker must approve this contract first
      */
     function createParlay(
         string calldata name,
@@ -96,27 +392,352 @@ contract ParlayMarket {
         uint8[] calldata requiredOutcomes,
         string[] calldata legNames,
         string[] calldata imageUrls,
+        address collateralToken,
+        uint256 makerStake,
         uint256 takerStake,
         uint256 expiry,
-        bool makerIsYes
+        uint256 resolutionDeadline,
+        uint256 resolverBounty,
+        bool makerIsYes,
+        uint256 minCorrectLegs,
+        VoidPolicy voidPolicy,
+        uint16[] calldata legProbabilitiesBps,
+        uint256[] calldata legFillDeadlines,
+        address allowedTaker,
+        bytes32 takerAllowlistRoot,
+        CancelMode cancelMode
+    ) external payable returns (uint256) {
+        uint256 parlayId = _createParlay(
+            msg.sender,
+            name,
+            conditionIds,
+            requiredOutcomes,
+            legNames,
+            imageUrls,
+            collateralToken,
+            makerStake,
+            takerStake,
+            expiry,
+            resolutionDeadline,
+            resolverBounty,
+            makerIsYes
+        );
+        _setParlayRules(parlayId, minCorrectLegs, voidPolicy, legProbabilitiesBps);
+        _setLegFillDeadlines(parlayId, legFillDeadlines);
+        parlays[parlayId].allowedTaker = allowedTaker;
+        parlays[parlayId].takerAllowlistRoot = takerAllowlistRoot;
+        parlays[parlayId].cancelMode = cancelMode;
+        
+        _collectStake(collateralToken, makerStake + resolverBounty);
+        
+        return parlayId;
+    }
+    
+    /**
+     * @notice Create a round robin: one linked parlay for every combination of `legsPerParlay` legs
+     * @param legsPerParlay Size of each combination; every leg of a spawned parlay must hit
+     * @param makerStake Maker stake for each spawned parlay
+     * @param takerStake Taker stake offered on each spawned parlay
+     * @param resolverBounty Resolver bounty escrowed for each spawned parlay
+     * @param cancelMode Whether the maker can cancel or update the spawned parlays before expiry
+     * @dev Other parameters match createParlay and apply to every spawned parlay. The maker deposits
+     *      makerStake plus resolverBounty for each combination up front; each parlay is then filled and resolved on its own.
+     */
+    function createRoundRobin(
+        string calldata name,
+        bytes32[] calldata conditionIds,
+        uint8[] calldata requiredOutcomes,
+        string[] calldata legNames,
+        string[] calldata imageUrls,
+        address collateralToken,
+        uint256 legsPerParlay,
+        uint256 makerStake,
+        uint256 takerStake,
+        uint256 expiry,
+        uint256 resolutionDeadline,
+        uint256 resolverBounty,
+        bool makerIsYes,
+        VoidPolicy voidPolicy,
+        uint16[] calldata legProbabilitiesBps,
+        uint256[] calldata legFillDeadlines,
+        CancelMode cancelMode
     ) external payable returns (uint256) {
-        require(conditionIds.length > 0, "No markets specified");
-        require(conditionIds.length == requiredOutcomes.length, "Length mismatch");
-        require(conditionIds.length == legNames.length, "Leg names length mismatch");
-        require(conditionIds.length == imageUrls.length, "Image URLs length mismatch");
-        require(expiry > block.timestamp, "Expiry in past");
-        require(msg.value > 0, "No stake provided");
-        require(takerStake > 0, "Taker stake must be positive");
+        uint256 legCount = conditionIds.length;
+        if (legsPerParlay == 0 || legsPerParlay >= legCount) revert InvalidLegsPerParlay();
+        if (
+            legCount != requiredOutcomes.length ||
+            legCount != legNames.length ||
+            legCount != imageUrls.length
+        ) revert LengthMismatch();
+        bool reprice = voidPolicy == VoidPolicy.DropLegReprice;
+        if (legProbabilitiesBps.length != (reprice ? legCount : 0)) revert ProbabilitiesLengthMismatch();
+        bool hasDeadlines = legFillDeadlines.length > 0;
+        if (hasDeadlines && legFillDeadlines.length != legCount) revert FillDeadlinesLengthMismatch();
+        
+        // C(n, k) computed incrementally; each intermediate value is itself a binomial coefficient
+        uint256 combinations = 1;
+        for (uint256 i = 0; i < legsPerParlay; i++) {
+            combinations = (combinations * (legCount - i)) / (i + 1);
+        }
+        if (combinations > MAX_ROUND_ROBIN_PARLAYS) revert TooManyCombinations();
+        
+        uint256 roundRobinId = ++_roundRobinIdCounter;
+        
+        // Leg indices of the current combination, advanced in lexicographic order
+        uint256[] memory legIndices = new uint256[](legsPerParlay);
+        for (uint256 i = 0; i < legsPerParlay; i++) {
+            legIndices[i] = i;
+        }
+        
+        for (uint256 c = 0; c < combinations; c++) {
+            bytes32[] memory comboConditionIds = new bytes32[](legsPerParlay);
+            uint8[] memory comboOutcomes = new uint8[](legsPerParlay);
+            string[] memory comboLegNames = new string[](legsPerParlay);
+            string[] memory comboImageUrls = new string[](legsPerParlay);
+            uint16[] memory comboProbabilities = new uint16[](reprice ? legsPerParlay : 0);
+            uint256[] memory comboDeadlines = new uint256[](hasDeadlines ? legsPerParlay : 0);
+            
+            for (uint256 i = 0; i < legsPerParlay; i++) {
+                uint256 leg = legIndices[i];
+                comboConditionIds[i] = conditionIds[leg];
+                comboOutcomes[i] = requiredOutcomes[leg];
+                comboLegNames[i] = legNames[leg];
+                comboImageUrls[i] = imageUrls[leg];
+                if (reprice) {
+                    comboProbabilities[i] = legProbabilitiesBps[leg];
+                }
+                if (hasDeadlines) {
+                    comboDeadlines[i] = legFillDeadlines[leg];
+                }
+            }
+            
+            uint256 parlayId = _createParlay(
+                msg.sender,
+                name,
+                comboConditionIds,
+                comboOutcomes,
+                comboLegNames,
+                comboImageUrls,
+                collateralToken,
+                makerStake,
+                takerStake,
+                expiry,
+                resolutionDeadline,
+                resolverBounty,
+                makerIsYes
+            );
+            _setParlayRules(parlayId, legsPerParlay, voidPolicy, comboProbabilities);
+            _setLegFillDeadlines(parlayId, comboDeadlines);
+            parlays[parlayId].roundRobinId = roundRobinId;
+            parlays[parlayId].cancelMode = cancelMode;
+            _roundRobinParlays[roundRobinId].push(parlayId);
+            
+            // Advance to the next combination
+            if (c + 1 < combinations) {
+                uint256 i = legsPerParlay - 1;
+                while (legIndices[i] == legCount - legsPerParlay + i) {
+                    i--;
+                }
+                legIndices[i]++;
+                for (uint256 j = i + 1; j < legsPerParlay; j++) {
+                    legIndices[j] = legIndices[j - 1] + 1;
+                }
+            }
+        }
+        
+        _collectStake(collateralToken, (makerStake + resolverBounty) * combinations);
+        
+        emit RoundRobinCreated(roundRobinId, msg.sender, legsPerParlay, _roundRobinParlays[roundRobinId]);
+        
+        return roundRobinId;
+    }
+    
+    /**
+     * @notice Fill a maker's signed order, creating the parlay and pulling both stakes atomically
+     * @param order The order terms signed by the maker
+     * @param signature The maker's EIP-712 signature over the order
+     * @dev Signed orders must use whitelisted ERC-20 collateral approved to this contract by both sides.
+     *      The order is always filled in full and its nonce is consumed.
+     */
+    function fillSignedOrder(ParlayOrder calldata order, bytes calldata signature) external returns (uint256) {
+        if (order.collateralToken == address(0)) revert SignedOrderNeedsERC20Collateral();
+        if (!isNonceValid(order.maker, order.nonce)) revert OrderCancelledOrUsed();
+        
+        bytes32 orderHash = hashOrder(order);
+        if (_recoverSigner(orderHash, signature) != order.maker) revert InvalidSignature();
+        
+        nonceUsed[order.maker][order.nonce] = true;
+        
+        uint256 parlayId = _createParlay(
+            order.maker,
+            order.name,
+            order.conditionIds,
+            order.requiredOutcomes,
+            order.legNames,
+            order.imageUrls,
+            order.collateralToken,
+            order.makerStake,
+            order.takerStake,
+            order.expiry,
+            order.resolutionDeadline,
+            order.resolverBounty,
+            order.makerIsYes
+        );
+        if (order.voidPolicy > uint8(VoidPolicy.DropLegReprice)) revert InvalidVoidPolicy();
+        _setParlayRules(parlayId, order.minCorrectLegs, VoidPolicy(order.voidPolicy), order.legProbabilitiesBps);
+        _setLegFillDeadlines(parlayId, order.legFillDeadlines);
+        
+        // Whitelist is checked when the taker stake is collected in _fillParlay
+        _safeTransferFrom(order.collateralToken, order.maker, address(this), order.makerStake + order.resolverBounty);
+        _fillParlay(parlayId, order.takerStake);
+        
+        emit SignedOrderFilled(orderHash, parlayId, order.maker, msg.sender);
+        
+        return parlayId;
+    }
+    
+    /**
+     * @notice Cancel a single signed order by its nonce
+     * @param nonce The order nonce to cancel
+     */
+    function cancelOrder(uint256 nonce) external {
+        if (nonceUsed[msg.sender][nonce]) revert NonceAlreadyUsed();
+        nonceUsed[msg.sender][nonce] = true;
+        emit OrderCancelled(msg.sender, nonce);
+    }
+    
+    /**
+     * @notice Cancel every signed order with a nonce below `newMinNonce`
+     * @param newMinNonce New lowest valid nonce for the caller's orders
+     */
+    function cancelAllOrders(uint256 newMinNonce) external {
+        if (newMinNonce <= minValidNonce[msg.sender]) revert NonceMustIncrease();
+        minValidNonce[msg.sender] = newMinNonce;
+        emit AllOrdersCancelled(msg.sender, newMinNonce);
+    }
+    
+    /**
+     * @notice Whether a maker's order nonce can still be filled
+     */
+    function isNonceValid(address maker, uint256 nonce) public view returns (bool) {
+        return nonce >= minValidNonce[maker] && !nonceUsed[maker][nonce];
+    }
+    
+    /**
+     * @notice EIP-712 digest of a parlay order, as signed by the maker
+     */
+    function hashOrder(ParlayOrder calldata order) public view returns (bytes32) {
+        bytes32 structHash = keccak256(abi.encode(
+            PARLAY_ORDER_TYPEHASH,
+            order.maker,
+            keccak256(bytes(order.name)),
+            keccak256(abi.encodePacked(order.conditionIds)),
+            keccak256(abi.encodePacked(order.requiredOutcomes)),
+            _hashStrings(order.legNames),
+            _hashStrings(order.imageUrls),
+            order.collateralToken,
+            order.makerStake,
+            order.takerStake,
+            order.expiry,
+            order.resolutionDeadline,
+            order.resolverBounty,
+            order.makerIsYes,
+            order.minCorrectLegs,
+            order.voidPolicy,
+            keccak256(abi.encodePacked(order.legProbabilitiesBps)),
+            keccak256(abi.encodePacked(order.legFillDeadlines)),
+            order.nonce
+        ));
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+    
+    /**
+     * @notice EIP-712 domain separator for this market
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return _domainSeparator;
+    }
+    
+    /**
+     * @notice Store the win threshold and void policy chosen at creation, validating reprice probabilities
+     */
+    function _setParlayRules(
+        uint256 parlayId,
+        uint256 minCorrectLegs,
+        VoidPolicy voidPolicy,
+        uint16[] memory legProbabilitiesBps
+    ) internal {
+        Parlay storage parlay = parlays[parlayId];
+        
+        if (minCorrectLegs == 0 || minCorrectLegs > parlay.conditionIds.length) revert InvalidMinCorrectLegs();
+        
+        if (voidPolicy == VoidPolicy.DropLegReprice) {
+            // Repricing multiplies leg probabilities, which only holds when every leg must hit
+            if (minCorrectLegs != parlay.conditionIds.length) revert RepricingNeedsEveryLeg();
+            if (legProbabilitiesBps.length != parlay.conditionIds.length) revert ProbabilitiesLengthMismatch();
+            for (uint256 i = 0; i < legProbabilitiesBps.length; i++) {
+                if (legProbabilitiesBps[i] == 0 || legProbabilitiesBps[i] > BPS_DENOMINATOR) revert InvalidLegProbability();
+            }
+        } else {
+            if (legProbabilitiesBps.length != 0) revert ProbabilitiesOnlyForRepricing();
+        }
+        
+        parlay.minCorrectLegs = minCorrectLegs;
+        parlay.voidPolicy = voidPolicy;
+        parlay.legProbabilitiesBps = legProbabilitiesBps;
+    }
+    
+    /**
+     * @notice Store per-leg fill-by cutoffs; an empty array means no leg has one
+     */
+    function _setLegFillDeadlines(uint256 parlayId, uint256[] memory legFillDeadlines) internal {
+        if (legFillDeadlines.length == 0) return;
+        
+        Parlay storage parlay = parlays[parlayId];
+        if (legFillDeadlines.length != parlay.conditionIds.length) revert FillDeadlinesLengthMismatch();
+        for (uint256 i = 0; i < legFillDeadlines.length; i++) {
+            if (legFillDeadlines[i] != 0 && legFillDeadlines[i] <= block.timestamp) revert FillDeadlineInPast();
+        }
+        
+        parlay.legFillDeadlines = legFillDeadlines;
+    }
+    
+    /**
+     * @notice Validate and store a new parlay in the Created state; stakes are collected by the caller
+     */
+    function _createParlay(
+        address maker,
+        string calldata name,
+        bytes32[] memory conditionIds,
+        uint8[] memory requiredOutcomes,
+        string[] memory legNames,
+        string[] memory imageUrls,
+        address collateralToken,
+        uint256 makerStake,
+        uint256 takerStake,
+        uint256 expiry,
+        uint256 resolutionDeadline,
+        uint256 resolverBounty,
+        bool makerIsYes
+    ) internal returns (uint256) {
+        if (conditionIds.length == 0) revert NoMarketsSpecified();
+        if (conditionIds.length != requiredOutcomes.length) revert LengthMismatch();
+        if (conditionIds.length != legNames.length) revert LegNamesLengthMismatch();
+        if (conditionIds.length != imageUrls.length) revert ImageUrlsLengthMismatch();
+        if (expiry <= block.timestamp) revert ExpiryInPast();
+        if (resolutionDeadline <= expiry) revert ResolutionDeadlineBeforeExpiry();
+        if (makerStake == 0) revert NoStakeProvided();
+        if (takerStake == 0) revert TakerStakeNotPositive();
         
         for (uint256 i = 0; i < requiredOutcomes.length; i++) {
-            require(requiredOutcomes[i] <= 2, "Invalid outcome");
+            if (requiredOutcomes[i] > 2) revert InvalidOutcome();
         }
         
         uint256 parlayId = _parlayIdCounter++;
         
         Parlay storage parlay = parlays[parlayId];
         parlay.id = parlayId;
-        parlay.maker = msg.sender;
+        parlay.maker = maker;
         parlay.name = name;
         parlay.conditionIds = conditionIds;
         parlay.requiredOutcomes = requiredOutcomes;
@@ -131,91 +752,325 @@ contract ParlayMarket {
             parlay.imageUrls.push(imageUrls[i]);
         }
         
-        parlay.makerStake = msg.value;
+        parlay.makerStake = makerStake;
         parlay.takerStake = takerStake;
         parlay.expiry = expiry;
+        parlay.resolutionDeadline = resolutionDeadline;
+        parlay.resolverBounty = resolverBounty;
         parlay.status = ParlayStatus.Created;
         parlay.makerIsYes = makerIsYes;
+        parlay.collateralToken = collateralToken;
         
         emit ParlayCreated(
             parlayId,
-            msg.sender,
+            maker,
             name,
             conditionIds,
             requiredOutcomes,
             legNames,
             imageUrls,
-            msg.value,
+            makerStake,
             takerStake,
             expiry,
-            makerIsYes
+            makerIsYes,
+            collateralToken
         );
         
         return parlayId;
     }
     
     /**
-     * @notice Fill a parlay by providing matching collateral
+     * @notice Fill all or part of a parlay's taker side
      * @param parlayId The parlay to fill
+     * @param amount Taker collateral to provide (must equal msg.value for native FLR)
+     * @param termsHash getTermsHash(parlayId) as seen by the taker, so an updateParlay front-running the fill reverts it
+     * @param allowlistProof Merkle proof of msg.sender for a parlay with a taker allowlist, otherwise empty
+     * @dev Each fill mints its own YES/NO pair backed by the fill and the pro rata maker stake
      */
-    function fillParlay(uint256 parlayId) external payable {
+    function fillParlay(
+        uint256 parlayId,
+        uint256 amount,
+        bytes32 termsHash,
+        bytes32[] calldata allowlistProof
+    ) external payable {
         Parlay storage parlay = parlays[parlayId];
-        require(parlay.status == ParlayStatus.Created, "Parlay not available");
-        require(block.timestamp <= parlay.expiry, "Parlay expired");
-        require(msg.value == parlay.takerStake, "Incorrect stake amount");
-        require(msg.sender != parlay.maker, "Cannot fill own parlay");
+        if (termsHash != getTermsHash(parlayId)) revert TermsChanged();
+        _checkTaker(parlay, allowlistProof);
         
-        parlay.taker = msg.sender;
-        parlay.status = ParlayStatus.Filled;
+        _fillParlay(parlayId, amount);
+    }
+    
+    /**
+     * @notice Revert unless msg.sender may take a private parlay: its allowed taker, or on its taker allowlist
+     */
+    function _checkTaker(Parlay storage parlay, bytes32[] calldata allowlistProof) internal view {
+        if (parlay.allowedTaker != address(0) && msg.sender != parlay.allowedTaker) revert NotAllowedTaker();
+        if (parlay.takerAllowlistRoot != bytes32(0)) {
+            // Leaves are keccak256(abi.encodePacked(taker)), pairs are hashed in sorted order
+            bytes32 node = keccak256(abi.encodePacked(msg.sender));
+            for (uint256 i = 0; i < allowlistProof.length; i++) {
+                bytes32 sibling = allowlistProof[i];
+                node = node < sibling
+                    ? keccak256(abi.encodePacked(node, sibling))
+                    : keccak256(abi.encodePacked(sibling, node));
+            }
+            if (node != parlay.takerAllowlistRoot) revert NotOnTakerAllowlist();
+        }
+    }
+    
+    /**
+     * @notice Record a fill by msg.sender, collect its stake and mint its position tokens
+     */
+    function _fillParlay(uint256 parlayId, uint256 amount) internal {
+        _recordFill(parlayId, msg.sender, amount);
+        _collectStake(parlays[parlayId].collateralToken, amount);
+    }
+    
+    /**
+     * @notice Record a fill by a taker whose stake is already held and mint its position tokens
+     */
+    function _recordFill(uint256 parlayId, address taker, uint256 amount) internal {
+        Parlay storage parlay = parlays[parlayId];
+        if (parlay.status != ParlayStatus.Created) revert ParlayNotAvailable();
+        if (block.timestamp > parlay.expiry) revert ParlayExpired();
+        if (taker == parlay.maker) revert CannotFillOwnParlay();
+        if (amount == 0) revert FillAmountNotPositive();
+        if (amount > parlay.takerStake - parlay.filledTakerStake) revert ExceedsUnfilledAmount();
+        
+        // Stale offers can't be filled once a leg has an outcome (even one still in its challenge period)
+        // or past the maker's cutoff for it
+        uint256 deadlineCount = parlay.legFillDeadlines.length;
+        for (uint256 i = 0; i < parlay.conditionIds.length; i++) {
+            if (oracle.isOutcomeProposed(parlay.conditionIds[i])) revert LegOutcomeProposed();
+            if (deadlineCount > 0) {
+                uint256 deadline = parlay.legFillDeadlines[i];
+                if (deadline != 0 && block.timestamp > deadline) revert LegClosedForFills();
+            }
+        }
+        
+        // Match the unmatched maker stake pro rata, so terms changed by updateParlay only price the remainder;
+        // the final fill takes any rounding remainder
+        uint256 makerMatched;
+        uint256 unmatchedMakerStake = parlay.makerStake - parlay.filledMakerStake;
+        if (amount == parlay.takerStake - parlay.filledTakerStake) {
+            makerMatched = unmatchedMakerStake;
+            parlay.status = ParlayStatus.Filled;
+        } else {
+            makerMatched = (unmatchedMakerStake * amount) / (parlay.takerStake - parlay.filledTakerStake);
+            if (makerMatched == 0) revert FillAmountTooSmall();
+        }
+        parlay.filledTakerStake += amount;
+        parlay.filledMakerStake += makerMatched;
+        
+        if (parlay.taker == address(0)) {
+            parlay.taker = taker;
+        }
         
         // Mint tokens
-        address yesHolder = parlay.makerIsYes ? parlay.maker : msg.sender;
-        address noHolder = parlay.makerIsYes ? msg.sender : parlay.maker;
+        address yesHolder = parlay.makerIsYes ? parlay.maker : taker;
+        address noHolder = parlay.makerIsYes ? taker : parlay.maker;
+        
+        (uint256 yesTokenId, uint256 noTokenId) = parlayToken.mintPair(yesHolder, noHolder, parlayId);
+        
+        if (parlay.yesTokenId == 0) {
+            parlay.yesTokenId = yesTokenId;
+            parlay.noTokenId = noTokenId;
+        }
+        
+        _fills[parlayId].push(Fill({
+            taker: taker,
+            takerStake: amount,
+            makerStake: makerMatched,
+            yesTokenId: yesTokenId,
+            noTokenId: noTokenId
+        }));
+        
+        emit ParlayFilled(parlayId, taker, yesTokenId, noTokenId, amount, makerMatched);
+    }
+    
+    /**
+     * @notice Offer to take the rest of a parlay for a different taker stake, escrowing that stake
+     * @param parlayId The parlay to counter
+     * @param newTakerStake Taker collateral offered for all of the unmatched maker stake
+     *        (must equal msg.value for native FLR)
+     * @param allowlistProof Merkle proof of msg.sender for a parlay with a taker allowlist, otherwise empty
+     * @return counterId Index of the counter in getCounters(parlayId)
+     * @dev Private parlays only take counters from takers who could fill them.
+     *      The stake can be refunded with refundCounter after COUNTER_TIMEOUT, or as soon as the parlay
+     *      stops taking fills or its unmatched maker stake changes
+     */
+    function proposeCounter(
+        uint256 parlayId,
+        uint256 newTakerStake,
+        bytes32[] calldata allowlistProof
+    ) external payable returns (uint256 counterId) {
+        Parlay storage parlay = parlays[parlayId];
+        _checkTaker(parlay, allowlistProof);
+        if (parlay.status != ParlayStatus.Created) revert ParlayNotAvailable();
+        if (block.timestamp > parlay.expiry) revert ParlayExpired();
+        if (msg.sender == parlay.maker) revert CannotFillOwnParlay();
+        if (newTakerStake == 0) revert FillAmountNotPositive();
+        
+        _collectStake(parlay.collateralToken, newTakerStake);
+        
+        counterId = _counters[parlayId].length;
+        _counters[parlayId].push(Counter({
+            taker: msg.sender,
+            takerStake: newTakerStake,
+            makerStake: parlay.makerStake - parlay.filledMakerStake,
+            proposedAt: block.timestamp,
+            status: CounterStatus.Open
+        }));
         
-        uint256 yesTokenId = parlayToken.mint(yesHolder, parlayId, true);
-        uint256 noTokenId = parlayToken.mint(noHolder, parlayId, false);
+        emit CounterProposed(parlayId, counterId, msg.sender, newTakerStake);
+    }
+    
+    /**
+     * @notice Accept a counter-offer, filling the rest of the parlay with the counter's escrowed stake
+     * @param parlayId The parlay being countered
+     * @param counterId Index of the counter in getCounters(parlayId)
+     * @dev Earlier fills keep their terms; takerStake is set so the counter matches all unmatched maker stake
+     */
+    function acceptCounter(uint256 parlayId, uint256 counterId) external {
+        Parlay storage parlay = parlays[parlayId];
+        if (msg.sender != parlay.maker) revert OnlyMakerCanAccept();
+        
+        Counter storage counter = _counters[parlayId][counterId];
+        if (counter.status != CounterStatus.Open) revert CounterNotOpen();
+        if (parlay.makerStake - parlay.filledMakerStake != counter.makerStake) revert CounterTermsChanged();
+        counter.status = CounterStatus.Accepted;
+        
+        parlay.takerStake = parlay.filledTakerStake + counter.takerStake;
+        _recordFill(parlayId, counter.taker, counter.takerStake);
+        
+        emit CounterAccepted(parlayId, counterId, counter.taker, counter.takerStake);
+    }
+    
+    /**
+     * @notice Take back the stake of a counter-offer the maker hasn't accepted
+     * @param parlayId The parlay that was countered
+     * @param counterId Index of the counter in getCounters(parlayId)
+     */
+    function refundCounter(uint256 parlayId, uint256 counterId) external {
+        Counter storage counter = _counters[parlayId][counterId];
+        if (msg.sender != counter.taker) revert OnlyCounterTaker();
+        if (counter.status != CounterStatus.Open) revert CounterNotOpen();
+        
+        Parlay storage parlay = parlays[parlayId];
+        if (
+            parlay.status == ParlayStatus.Created &&
+            block.timestamp <= parlay.expiry &&
+            block.timestamp <= counter.proposedAt + COUNTER_TIMEOUT &&
+            parlay.makerStake - parlay.filledMakerStake == counter.makerStake
+        ) revert CounterStillLocked();
         
-        parlay.yesTokenId = yesTokenId;
-        parlay.noTokenId = noTokenId;
+        counter.status = CounterStatus.Refunded;
+        _credit(parlay.collateralToken, counter.taker, counter.takerStake);
         
-        emit ParlayFilled(parlayId, msg.sender, yesTokenId, noTokenId);
+        emit CounterRefunded(parlayId, counterId, counter.taker, counter.takerStake);
     }
     
     /**
-     * @notice Cancel an unfilled parlay and return collateral
+     * @notice Change the stakes and expiry of an open parlay, keeping its ID and shared links
+     * @param parlayId The parlay to update
+     * @param makerStake New total maker stake; a top-up is collected (msg.value for native FLR), a reduction credited back
+     * @param takerStake New total taker stake
+     * @param expiry New expiry, which must still be before the resolution deadline
+     * @dev On a partially filled parlay both stakes must stay above what is already filled, and the new odds
+     *      only price the unfilled remainder. Fills must quote the new getTermsHash.
+     */
+    function updateParlay(uint256 parlayId, uint256 makerStake, uint256 takerStake, uint256 expiry) external payable {
+        Parlay storage parlay = parlays[parlayId];
+        if (parlay.status != ParlayStatus.Created) revert ParlayNotUpdatable();
+        if (msg.sender != parlay.maker) revert OnlyMakerCanUpdate();
+        if (_isLocked(parlay)) revert OfferLockedUntilExpiry();
+        if (expiry <= block.timestamp) revert ExpiryInPast();
+        if (parlay.resolutionDeadline <= expiry) revert ResolutionDeadlineBeforeExpiry();
+        if (makerStake <= parlay.filledMakerStake || takerStake <= parlay.filledTakerStake) revert StakeBelowFilled();
+        
+        uint256 oldMakerStake = parlay.makerStake;
+        parlay.makerStake = makerStake;
+        parlay.takerStake = takerStake;
+        parlay.expiry = expiry;
+        
+        if (makerStake > oldMakerStake) {
+            _collectStake(parlay.collateralToken, makerStake - oldMakerStake);
+        } else {
+            if (msg.value != 0) revert IncorrectStakeAmount();
+            _credit(parlay.collateralToken, msg.sender, oldMakerStake - makerStake);
+        }
+        
+        emit ParlayUpdated(parlayId, makerStake, takerStake, expiry);
+    }
+    
+    /**
+     * @notice Cancel the unfilled part of a parlay and credit the unmatched maker stake back
      * @param parlayId The parlay to cancel
+     * @dev A parlay with no fills becomes Cancelled; a partially filled one becomes Filled.
+     *      A LockedUntilExpiry parlay can only be cancelled after its expiry.
      */
     function cancelParlay(uint256 parlayId) external {
+        _cancelParlay(parlayId);
+    }
+    
+    /**
+     * @notice Cancel several open parlays in one transaction, e.g. every open offer of a maker
+     * @param parlayIds The parlays to cancel; reverts if any of them can't be cancelled
+     */
+    function cancelParlays(uint256[] calldata parlayIds) external {
+        for (uint256 i = 0; i < parlayIds.length; i++) {
+            _cancelParlay(parlayIds[i]);
+        }
+    }
+    
+    /**
+     * @notice Whether a parlay's cancel mode still keeps the maker from cancelling or updating it
+     */
+    function _isLocked(Parlay storage parlay) internal view returns (bool) {
+        return parlay.cancelMode == CancelMode.LockedUntilExpiry && block.timestamp <= parlay.expiry;
+    }
+    
+    /**
+     * @notice Cancel one parlay for msg.sender; shared by cancelParlay and cancelParlays
+     */
+    function _cancelParlay(uint256 parlayId) internal {
         Parlay storage parlay = parlays[parlayId];
-        require(parlay.status == ParlayStatus.Created, "Parlay not cancellable");
-        require(msg.sender == parlay.maker, "Only maker can cancel");
-        require(
-            block.timestamp > parlay.expiry || parlay.taker == address(0),
-            "Cannot cancel yet"
-        );
+        if (parlay.status != ParlayStatus.Created) revert ParlayNotCancellable();
+        if (msg.sender != parlay.maker) revert OnlyMakerCanCancel();
+        if (_isLocked(parlay)) revert OfferLockedUntilExpiry();
         
-        parlay.status = ParlayStatus.Cancelled;
+        uint256 refund = parlay.makerStake - parlay.filledMakerStake;
         
-        // Return maker's stake
-        payable(parlay.maker).transfer(parlay.makerStake);
+        if (parlay.filledTakerStake == 0) {
+            // Nothing left to resolve, so the resolver bounty goes back too
+            parlay.status = ParlayStatus.Cancelled;
+            _credit(parlay.collateralToken, parlay.maker, refund + parlay.resolverBounty);
+            emit ParlayCancelled(parlayId);
+            return;
+        }
         
-        emit ParlayCancelled(parlayId);
+        parlay.status = ParlayStatus.Filled;
+        _credit(parlay.collateralToken, parlay.maker, refund);
+        emit RemainderCancelled(parlayId, refund);
     }
     
     /**
      * @notice Resolve a filled parlay using oracle data
      * @param parlayId The parlay to resolve
+     * @dev A partially filled parlay can be resolved directly; its unmatched maker stake is refunded
      */
     function resolveParlay(uint256 parlayId) external {
         Parlay storage parlay = parlays[parlayId];
-        require(parlay.status == ParlayStatus.Filled, "Parlay not filled");
+        if (!_isFilled(parlay)) revert ParlayNotFilled();
         
-        // Check all legs
+        // Check all legs; INVALID legs are collected and handled by the void policy
+        uint256 legCount = parlay.conditionIds.length;
         bool allResolved = true;
-        bool yesWins = true;
-        bool anyInvalid = false;
+        uint256 correctCount = 0;
+        uint256 voidCount = 0;
+        bool[] memory isVoid = new bool[](legCount);
         
-        for (uint256 i = 0; i < parlay.conditionIds.length; i++) {
+        for (uint256 i = 0; i < legCount; i++) {
             (bool resolved, uint8 outcome) = oracle.getOutcome(parlay.conditionIds[i]);
             
             if (!resolved) {
@@ -224,47 +1079,430 @@ contract ParlayMarket {
             }
             
             if (outcome == 2) { // INVALID
-                anyInvalid = true;
-                break;
+                isVoid[i] = true;
+                voidCount++;
+                continue;
             }
             
-            if (outcome != parlay.requiredOutcomes[i]) {
-                yesWins = false;
+            if (outcome == parlay.requiredOutcomes[i]) {
+                correctCount++;
             }
         }
         
-        require(allResolved, "Not all markets resolved");
+        if (!allResolved) revert NotAllMarketsResolved();
+        
+        for (uint256 i = 0; i < legCount; i++) {
+            conditionSettled[parlay.conditionIds[i]] = true;
+        }
+        
+        _refundUnmatchedStake(parlay);
+        _payResolverBounty(parlay, msg.sender);
         
-        // Handle invalid case - refund both parties proportionally
-        if (anyInvalid) {
+        // Handle invalid case - refund each fill's stakes to the holders of its YES/NO tokens.
+        // Applies under RefundAll, or when every leg is void so nothing is left to settle on.
+        if (voidCount > 0 && (parlay.voidPolicy == VoidPolicy.RefundAll || voidCount == legCount)) {
             parlay.status = ParlayStatus.Invalid;
-            payable(parlay.maker).transfer(parlay.makerStake);
-            payable(parlay.taker).transfer(parlay.takerStake);
-            
-            parlayToken.burn(parlay.yesTokenId);
-            parlayToken.burn(parlay.noTokenId);
+            _refundFills(parlay);
             
             emit ParlayInvalidated(parlayId);
             return;
         }
         
+        // YES wins when enough legs hit; dropped legs lower the threshold if fewer legs remain than required
+        uint256 requiredCorrect = parlay.minCorrectLegs;
+        if (requiredCorrect > legCount - voidCount) {
+            requiredCorrect = legCount - voidCount;
+        }
+        bool yesWins = correctCount >= requiredCorrect;
+        
+        // Collect voided leg indices and, for DropLegReprice, the combined probability of the dropped legs
+        uint256[] memory voidedLegs = new uint256[](voidCount);
+        uint256 voidedProbability = PRICE_PRECISION;
+        uint256 v = 0;
+        for (uint256 i = 0; i < legCount; i++) {
+            if (!isVoid[i]) continue;
+            voidedLegs[v++] = i;
+            if (parlay.voidPolicy == VoidPolicy.DropLegReprice) {
+                voidedProbability = (voidedProbability * parlay.legProbabilitiesBps[i]) / BPS_DENOMINATOR;
+            }
+        }
+        
+        _settleFills(parlay, yesWins, voidedProbability, voidedLegs);
+    }
+    
+    /**
+     * @notice Settle a parlay for NO as soon as resolved legs make a YES win impossible
+     * @param parlayId The parlay to settle
+     * @dev Legs that are still open are ignored, so they can no longer void the parlay.
+     *      Not available under RefundAll once a resolved leg is INVALID, as that parlay is refunded instead.
+     */
+    function settleEarly(uint256 parlayId) external {
+        Parlay storage parlay = parlays[parlayId];
+        if (!_isFilled(parlay)) revert ParlayNotFilled();
+        
+        uint256 legCount = parlay.conditionIds.length;
+        uint256 failedCount = 0;
+        uint256 voidCount = 0;
+        bool[] memory isVoid = new bool[](legCount);
+        
+        for (uint256 i = 0; i < legCount; i++) {
+            (bool resolved, uint8 outcome) = oracle.getOutcome(parlay.conditionIds[i]);
+            if (!resolved) continue;
+            
+            conditionSettled[parlay.conditionIds[i]] = true;
+            
+            if (outcome == 2) { // INVALID
+                if (parlay.voidPolicy == VoidPolicy.RefundAll) revert VoidLegRefundsParlay();
+                isVoid[i] = true;
+                voidCount++;
+            } else if (outcome != parlay.requiredOutcomes[i]) {
+                failedCount++;
+            }
+        }
+        
+        // YES needs minCorrectLegs hits, so it is out once more than legCount - minCorrectLegs legs fail.
+        // Voiding open legs only lowers the threshold to "every remaining leg", which a failed leg already rules out.
+        if (failedCount <= legCount - parlay.minCorrectLegs) revert YesCanStillWin();
+        
+        _refundUnmatchedStake(parlay);
+        _payResolverBounty(parlay, msg.sender);
+        
+        uint256[] memory voidedLegs = new uint256[](voidCount);
+        uint256 v = 0;
+        for (uint256 i = 0; i < legCount; i++) {
+            if (isVoid[i]) voidedLegs[v++] = i;
+        }
+        
+        // NO takes each fill's whole pot, so repricing would only move stake between the same holder's sides
+        _settleFills(parlay, false, PRICE_PRECISION, voidedLegs);
+        
+        emit ParlaySettledEarly(parlayId);
+    }
+    
+    /**
+     * @notice Refund a filled parlay that was never resolved by its resolution deadline
+     * @param parlayId The parlay to refund
+     * @dev Callable by the maker or the holder of any of its position tokens, and only while at least one leg is still
+     *      unresolved or disputed and settleEarly cannot close the parlay. Returns each fill's stakes to the holders of its tokens,
+     *      refunds unmatched maker stake and burns the position tokens.
+     */
+    function refundStale(uint256 parlayId) external {
+        Parlay storage parlay = parlays[parlayId];
+        if (!_isFilled(parlay)) revert ParlayNotFilled();
+        if (block.timestamp <= parlay.resolutionDeadline) revert ResolutionDeadlineNotPassed();
+        
+        // Positions may have changed hands since the fill, so holders qualify rather than the original takers
+        if (msg.sender != parlay.maker && !parlayToken.holdsPosition(msg.sender, parlayId)) revert OnlyMakerOrHolder();
+        
+        // A late resolver must not be able to turn a decided parlay into a refund: once every leg is final
+        // resolveParlay pays out, and once YES is ruled out settleEarly does (same test as there)
+        uint256 legCount = parlay.conditionIds.length;
+        uint256 openCount = 0;
+        uint256 failedCount = 0;
+        bool voided = false;
+        for (uint256 i = 0; i < legCount; i++) {
+            (bool resolved, uint8 outcome) = oracle.getOutcome(parlay.conditionIds[i]);
+            if (!resolved) {
+                openCount++;
+            } else if (outcome == 2) {
+                voided = true;
+            } else if (outcome != parlay.requiredOutcomes[i]) {
+                failedCount++;
+            }
+        }
+        if (
+            openCount == 0 ||
+            (failedCount > legCount - parlay.minCorrectLegs && !(voided && parlay.voidPolicy == VoidPolicy.RefundAll))
+        ) revert ParlayAlreadyDecided();
+        
+        // Nobody resolved it, so the resolver bounty goes back to the maker
+        _refundUnmatchedStake(parlay);
+        _payResolverBounty(parlay, parlay.maker);
+        
+        parlay.status = ParlayStatus.Stale;
+        _refundFills(parlay);
+        
+        emit StaleParlayRefunded(parlayId, msg.sender);
+    }
+    
+    /**
+     * @notice Whether a parlay has fills awaiting settlement: fully filled, or still open with at least one fill
+     */
+    function _isFilled(Parlay storage parlay) internal view returns (bool) {
+        return parlay.status == ParlayStatus.Filled ||
+            (parlay.status == ParlayStatus.Created && parlay.filledTakerStake > 0);
+    }
+    
+    /**
+     * @notice Credit the maker stake that was never matched by a fill back to the maker
+     */
+    function _refundUnmatchedStake(Parlay storage parlay) internal {
+        if (parlay.status == ParlayStatus.Created) {
+            _credit(parlay.collateralToken, parlay.maker, parlay.makerStake - parlay.filledMakerStake);
+        }
+    }
+    
+    /**
+     * @notice Credit a parlay's escrowed resolver bounty, if any
+     */
+    function _payResolverBounty(Parlay storage parlay, address to) internal {
+        uint256 bounty = parlay.resolverBounty;
+        if (bounty == 0) return;
+        
+        _credit(parlay.collateralToken, to, bounty);
+        emit ResolverBountyPaid(parlay.id, to, bounty);
+    }
+    
+    /**
+     * @notice Refund each side of every fill to the current holder of that side's token, and burn the pair
+     */
+    function _refundFills(Parlay storage parlay) internal {
+        Fill[] storage fills = _fills[parlay.id];
+        for (uint256 i = 0; i < fills.length; i++) {
+            // Positions may have been sold or transferred, so refunds follow token ownership like winnings
+            (address yesHolder, address noHolder) = parlayToken.burnPair(fills[i].yesTokenId, fills[i].noTokenId);
+            _credit(parlay.collateralToken, parlay.makerIsYes ? yesHolder : noHolder, fills[i].makerStake);
+            _credit(parlay.collateralToken, parlay.makerIsYes ? noHolder : yesHolder, fills[i].takerStake);
+        }
+    }
+    
+    /**
+     * @notice Mark a parlay resolved, settle every fill, credit the protocol fee and emit ParlayResolved
+     */
+    function _settleFills(
+        Parlay storage parlay,
+        bool yesWins,
+        uint256 voidedProbability,
+        uint256[] memory voidedLegs
+    ) internal {
         parlay.status = ParlayStatus.Resolved;
         
-        // Determine winner based on current token ownership
-        address yesOwner = parlayToken.ownerOf(parlay.yesTokenId);
-        address noOwner = parlayToken.ownerOf(parlay.noTokenId);
+        uint256 totalPayout;
+        uint256 protocolFee;
+        uint256 fillCount = _fills[parlay.id].length;
+        for (uint256 i = 0; i < fillCount; i++) {
+            (uint256 payout, uint256 fee) = _settleFill(parlay, i, yesWins, voidedProbability);
+            totalPayout += payout;
+            protocolFee += fee;
+        }
+        
+        if (protocolFee > 0) {
+            _credit(parlay.collateralToken, feeRecipient, protocolFee);
+        }
+        
+        emit ParlayResolved(parlay.id, yesWins, totalPayout, protocolFee, voidedLegs);
+    }
+    
+    /**
+     * @notice Pay one fill's pot to the current holder of its winning token and burn the pair
+     * @param voidedProbability Combined probability of dropped legs (1e18 = no repricing)
+     * @dev Repricing keeps the YES stake and shrinks the NO stake to pot * voidedProbability - YES stake,
+     *      refunding the difference to the NO holder, since dropping a leg makes YES more likely to hit.
+     *      When the repriced pot is no larger than the YES stake both holders are refunded in full and no fee is taken.
+     */
+    function _settleFill(
+        Parlay storage parlay,
+        uint256 fillIndex,
+        bool yesWins,
+        uint256 voidedProbability
+    ) internal returns (uint256 payout, uint256 fee) {
+        Fill storage fill = _fills[parlay.id][fillIndex];
+        uint256 pot = fill.makerStake + fill.takerStake;
+        
+        // Burn the pair; payouts go to whoever held each token, not the original maker/taker
+        (address yesHolder, address noHolder) = parlayToken.burnPair(fill.yesTokenId, fill.noTokenId);
+        
+        if (voidedProbability < PRICE_PRECISION) {
+            uint256 yesStake = parlay.makerIsYes ? fill.makerStake : fill.takerStake;
+            uint256 noStake = pot - yesStake;
+            uint256 repricedPot = (pot * voidedProbability) / PRICE_PRECISION;
+            
+            // YES alone covers the repriced pot, so NO has nothing left at stake: call the fill off and return both stakes fee-free
+            if (repricedPot <= yesStake) {
+                _credit(parlay.collateralToken, yesHolder, yesStake);
+                _credit(parlay.collateralToken, noHolder, noStake);
+                emit PositionRepriced(parlay.id, fillIndex, noStake);
+                return (0, 0);
+            }
+            
+            uint256 noRefund = pot - repricedPot;
+            if (noRefund > 0) {
+                _credit(parlay.collateralToken, noHolder, noRefund);
+                pot -= noRefund;
+                emit PositionRepriced(parlay.id, fillIndex, noRefund);
+            }
+        }
+        
+        address winner = yesWins ? yesHolder : noHolder;
+        fee = (pot * protocolFeeBps) / BPS_DENOMINATOR;
+        payout = pot - fee;
+        
+        _credit(parlay.collateralToken, winner, payout);
+        
+        emit PositionSettled(parlay.id, fillIndex, winner, payout);
+    }
+    
+    /**
+     * @notice Withdraw all credited refunds and winnings
+     */
+    function withdraw() external {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        if (amount == 0) revert NothingToWithdraw();
+        
+        pendingWithdrawals[msg.sender] = 0;
+        
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        if (!success) revert WithdrawalFailed();
+        
+        emit Withdrawn(msg.sender, amount);
+    }
+    
+    /**
+     * @notice Withdraw all credited refunds and winnings in an ERC-20 collateral token
+     * @param token The collateral token to withdraw
+     */
+    function withdrawToken(address token) external {
+        uint256 amount = pendingTokenWithdrawals[token][msg.sender];
+        if (amount == 0) revert NothingToWithdraw();
+        
+        pendingTokenWithdrawals[token][msg.sender] = 0;
+        _safeTransfer(token, msg.sender, amount);
+        
+        emit TokenWithdrawn(token, msg.sender, amount);
+    }
+    
+    /**
+     * @notice Allow or disallow an ERC-20 token as parlay collateral
+     * @param token The ERC-20 token address
+     * @param allowed Whether new parlays may use it
+     * @dev Fee-on-transfer and rebasing tokens are not supported
+     */
+    function setCollateralToken(address token, bool allowed) external onlyOwner {
+        if (token == address(0)) revert InvalidToken();
+        collateralTokens[token] = allowed;
+        emit CollateralTokenUpdated(token, allowed);
+    }
+    
+    /**
+     * @notice Set the protocol fee taken from winnings on resolution
+     * @param newFeeBps Fee in basis points, at most MAX_PROTOCOL_FEE_BPS
+     */
+    function setProtocolFee(uint256 newFeeBps) external onlyOwner {
+        if (newFeeBps > MAX_PROTOCOL_FEE_BPS) revert FeeTooHigh();
+        emit ProtocolFeeUpdated(protocolFeeBps, newFeeBps);
+        protocolFeeBps = newFeeBps;
+    }
+    
+    /**
+     * @notice Set the address credited with protocol fees
+     * @param newRecipient New fee recipient
+     */
+    function setFeeRecipient(address newRecipient) external onlyOwner {
+        if (newRecipient == address(0)) revert InvalidAddress();
+        emit FeeRecipientUpdated(feeRecipient, newRecipient);
+        feeRecipient = newRecipient;
+    }
+    
+    /**
+     * @notice Start an ownership transfer; the new owner must call acceptOwnership
+     * @param newOwner New owner address
+     */
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert InvalidAddress();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+    
+    /**
+     * @notice Accept a pending ownership transfer
+     */
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        address oldOwner = owner;
+        owner = msg.sender;
+        pendingOwner = address(0);
+        emit OwnershipTransferred(oldOwner, msg.sender);
+    }
+    
+    /**
+     * @notice Collect a stake from msg.sender in native FLR or a whitelisted ERC-20
+     */
+    function _collectStake(address token, uint256 amount) internal {
+        if (token == address(0)) {
+            if (msg.value != amount) revert IncorrectStakeAmount();
+            return;
+        }
         
-        address winner = yesWins ? yesOwner : noOwner;
-        uint256 totalPayout = parlay.makerStake + parlay.takerStake;
+        if (!collateralTokens[token]) revert CollateralNotAllowed();
+        if (msg.value != 0) revert NativeValueNotAccepted();
+        _safeTransferFrom(token, msg.sender, address(this), amount);
+    }
+    
+    /**
+     * @notice Credit an amount to an account's withdrawable balance
+     */
+    function _credit(address token, address account, uint256 amount) internal {
+        if (token == address(0)) {
+            pendingWithdrawals[account] += amount;
+            emit WithdrawalCredited(account, amount);
+        } else {
+            pendingTokenWithdrawals[token][account] += amount;
+            emit TokenWithdrawalCredited(token, account, amount);
+        }
+    }
+    
+    /**
+     * @notice EIP-712 encoding of a string[]: hash of the concatenated string hashes
+     */
+    function _hashStrings(string[] calldata values) internal pure returns (bytes32) {
+        bytes32[] memory hashes = new bytes32[](values.length);
+        for (uint256 i = 0; i < values.length; i++) {
+            hashes[i] = keccak256(bytes(values[i]));
+        }
+        return keccak256(abi.encodePacked(hashes));
+    }
+    
+    /**
+     * @notice Recover the signer of a digest from a 65-byte (r, s, v) signature
+     */
+    function _recoverSigner(bytes32 digest, bytes calldata signature) internal pure returns (address) {
+        if (signature.length != 65) revert InvalidSignatureLength();
         
-        // Transfer winnings
-        payable(winner).transfer(totalPayout);
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
         
-        // Burn tokens
-        parlayToken.burn(parlay.yesTokenId);
-        parlayToken.burn(parlay.noTokenId);
+        // Reject malleable signatures (upper-half s values)
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) revert InvalidSignature();
+        if (v < 27) {
+            v += 27;
+        }
         
-        emit ParlayResolved(parlayId, yesWins, winner, totalPayout);
+        address signer = ecrecover(digest, v, r, s);
+        if (signer == address(0)) revert InvalidSignature();
+        return signer;
+    }
+    
+    /**
+     * @notice ERC-20 transfer that tolerates tokens without a boolean return value
+     */
+    function _safeTransfer(address token, address to, uint256 amount) internal {
+        _callToken(token, abi.encodeWithSelector(IERC20.transfer.selector, to, amount));
+    }
+    
+    /**
+     * @notice ERC-20 transferFrom that tolerates tokens without a boolean return value
+     */
+    function _safeTransferFrom(address token, address from, address to, uint256 amount) internal {
+        _callToken(token, abi.encodeWithSelector(IERC20.transferFrom.selector, from, to, amount));
+    }
+    
+    /**
+     * @notice Call an ERC-20 and require success and a true or empty return value
+     */
+    function _callToken(address token, bytes memory data) private {
+        (bool success, bytes memory returnData) = token.call(data);
+        if (!success || (returnData.length != 0 && !abi.decode(returnData, (bool)))) revert TokenTransferFailed();
     }
     
     /**
@@ -284,7 +1522,10 @@ contract ParlayMarket {
         ParlayStatus status,
         bool makerIsYes,
         uint256 yesTokenId,
-        uint256 noTokenId
+        uint256 noTokenId,
+        address collateralToken,
+        uint256 filledTakerStake,
+        uint256 filledMakerStake
     ) {
         Parlay storage parlay = parlays[parlayId];
         return (
@@ -301,10 +1542,103 @@ contract ParlayMarket {
             parlay.status,
             parlay.makerIsYes,
             parlay.yesTokenId,
-            parlay.noTokenId
+            parlay.noTokenId,
+            parlay.collateralToken,
+            parlay.filledTakerStake,
+            parlay.filledMakerStake
         );
     }
     
+    /**
+     * @notice Get a parlay's void policy and the leg probabilities used for repricing
+     */
+    function getVoidPolicy(uint256 parlayId) external view returns (
+        VoidPolicy voidPolicy,
+        uint16[] memory legProbabilitiesBps
+    ) {
+        Parlay storage parlay = parlays[parlayId];
+        return (parlay.voidPolicy, parlay.legProbabilitiesBps);
+    }
+    
+    /**
+     * @notice Get a parlay's win threshold and the round robin it belongs to (0 if none)
+     */
+    function getParlayType(uint256 parlayId) external view returns (
+        uint256 minCorrectLegs,
+        uint256 roundRobinId
+    ) {
+        Parlay storage parlay = parlays[parlayId];
+        return (parlay.minCorrectLegs, parlay.roundRobinId);
+    }
+    
+    /**
+     * @notice Get the timestamp after which a filled, unresolved parlay can be refunded with refundStale
+     */
+    function getResolutionDeadline(uint256 parlayId) external view returns (uint256) {
+        return parlays[parlayId].resolutionDeadline;
+    }
+    
+    /**
+     * @notice Get the collateral escrowed for whoever resolves a parlay
+     */
+    function getResolverBounty(uint256 parlayId) external view returns (uint256) {
+        return parlays[parlayId].resolverBounty;
+    }
+    
+    /**
+     * @notice Get who may fill a private parlay: a single taker and/or a Merkle allowlist root (zero for none)
+     */
+    function getTakerRestriction(uint256 parlayId) external view returns (
+        address allowedTaker,
+        bytes32 takerAllowlistRoot
+    ) {
+        Parlay storage parlay = parlays[parlayId];
+        return (parlay.allowedTaker, parlay.takerAllowlistRoot);
+    }
+    
+    /**
+     * @notice Get a parlay's per-leg fill-by cutoffs (0 = none; empty when no leg has one)
+     */
+    function getLegFillDeadlines(uint256 parlayId) external view returns (uint256[] memory) {
+        return parlays[parlayId].legFillDeadlines;
+    }
+    
+    /**
+     * @notice Get whether the maker can cancel or update a parlay before its expiry
+     */
+    function getCancelMode(uint256 parlayId) external view returns (CancelMode) {
+        return parlays[parlayId].cancelMode;
+    }
+    
+    /**
+     * @notice Get the IDs of every parlay spawned by a round robin
+     */
+    function getRoundRobin(uint256 roundRobinId) external view returns (uint256[] memory) {
+        return _roundRobinParlays[roundRobinId];
+    }
+    
+    /**
+     * @notice Hash of the terms updateParlay can change, quoted by fillParlay to guard against front-running
+     */
+    function getTermsHash(uint256 parlayId) public view returns (bytes32) {
+        Parlay storage parlay = parlays[parlayId];
+        return keccak256(abi.encode(parlay.makerStake, parlay.takerStake, parlay.expiry));
+    }
+    
+    /**
+     * @notice Get every fill of a parlay with its stakes and position token IDs
+     */
+    function getFills(uint256 parlayId) external view returns (Fill[] memory) {
+        return _fills[parlayId];
+    }
+    
+    /**
+     * @notice Get every counter-offer made on a parlay, including accepted and refunded ones
+     */
+    function getCounters(uint256 parlayId) external view returns (Counter[] memory) {
+        return _counters[parlayId];
+    }
+    
     /**
      * @notice Get total number of parlays created
      */
@@ -1,28 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-/**
- * @title IParlayMarket
- * @notice Minimal interface to access parlay image URLs
- */
-interface IParlayMarket {
-    function getParlay(uint256 parlayId) external view returns (
-        address maker,
-        address taker,
-        string memory name,
-        bytes32[] memory conditionIds,
-        uint8[] memory requiredOutcomes,
-        string[] memory legNames,
-        string[] memory imageUrls,
-        uint256 makerStake,
-        uint256 takerStake,
-        uint256 expiry,
-        uint8 status,
-        bool makerIsYes,
-        uint256 yesTokenId,
-        uint256 noTokenId
-    );
-}
+import "./ParlayTokenRenderer.sol";
 
 /**
  * @title ParlayToken
@@ -30,21 +9,37 @@ interface IParlayMarket {
  * @dev Minted by ParlayMarket contract when a parlay is filled
  */
 contract ParlayToken {
+    // A token held by an account, as returned by positionsOf
+    struct Position {
+        uint256 tokenId;
+        uint256 parlayId;
+        bool isYes;
+    }
+    
     string public name = "ParlayMarket Position";
     string public symbol = "PARLAY";
     
     // Token ID counter - starts at 1 so YES tokens are odd (1, 3, 5...) and NO tokens are even (2, 4, 6...)
     uint256 private _tokenIdCounter = 1;
     
-    // Total supply tracking
-    uint256 private _totalSupply = 0;
-    
     // Token ownership
     mapping(uint256 => address) private _owners;
     mapping(address => uint256) private _balances;
     mapping(uint256 => address) private _tokenApprovals;
     mapping(address => mapping(address => bool)) private _operatorApprovals;
     
+    // Enumeration: each owner's tokens by index, and every existing token by index
+    mapping(address => mapping(uint256 => uint256)) private _ownedTokens;
+    mapping(uint256 => uint256) private _ownedTokensIndex;
+    uint256[] private _allTokens;
+    mapping(uint256 => uint256) private _allTokensIndex;
+    
+    // Tokens each owner holds per parlay, so holdsPosition doesn't have to walk the owner's whole list
+    mapping(address => mapping(uint256 => uint256)) private _positionCounts;
+    
+    // EIP-4494 permit nonces, bumped on every permit and transfer so a signature can't be replayed
+    mapping(uint256 => uint256) private _nonces;
+    
     // Token metadata: parlayId and side (true = YES, false = NO)
     mapping(uint256 => uint256) public tokenToParlayId;
     mapping(uint256 => bool) public tokenSide; // true = YES, false = NO
@@ -52,10 +47,23 @@ contract ParlayToken {
     // Only the ParlayMarket contract can mint
     address public immutable parlayMarket;
     
+    // Builds the on-chain tokenURI metadata and artwork
+    ParlayTokenRenderer public immutable renderer;
+    
     // ERC-165 interface IDs
     bytes4 private constant _INTERFACE_ID_ERC165 = 0x01ffc9a7;
     bytes4 private constant _INTERFACE_ID_ERC721 = 0x80ac58cd;
     bytes4 private constant _INTERFACE_ID_ERC721_METADATA = 0x5b5e139f;
+    bytes4 private constant _INTERFACE_ID_ERC721_ENUMERABLE = 0x780e9d63;
+    bytes4 private constant _INTERFACE_ID_ERC4494 = 0x5604e225;
+    
+    // EIP-712
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    bytes32 public constant PERMIT_TYPEHASH = keccak256(
+        "Permit(address spender,uint256 tokenId,uint256 nonce,uint256 deadline)"
+    );
     
     // ERC-721 Receiver interface selector
     bytes4 private constant _ERC721_RECEIVED = 0x150b7a02;
@@ -64,32 +72,56 @@ contract ParlayToken {
     event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId);
     event ApprovalForAll(address indexed owner, address indexed operator, bool approved);
     
+    // Errors
+    error OnlyParlayMarket();
+    error MintToZeroAddress();
+    error TokenDoesNotExist();
+    error ZeroAddress();
+    error NotAuthorized();
+    error FromAddressMismatch();
+    error TransferToZeroAddress();
+    error TransferToNonERC721Receiver();
+    error OwnerIndexOutOfBounds();
+    error GlobalIndexOutOfBounds();
+    error PermitExpired();
+    error ApprovalToCurrentOwner();
+    error InvalidPermitSignature();
+    error InvalidSignatureLength();
+    error InvalidSignature();
+    
     modifier onlyParlayMarket() {
-        require(msg.sender == parlayMarket, "Only ParlayMarket can call");
+        if (msg.sender != parlayMarket) revert OnlyParlayMarket();
         _;
     }
     
-    constructor(address _parlayMarket) {
+    constructor(address _parlayMarket, address _renderer) {
         parlayMarket = _parlayMarket;
+        renderer = ParlayTokenRenderer(_renderer);
     }
     
     /**
-     * @notice Mint a YES or NO token for a parlay
-     * @param to Recipient address
-     * @param parlayId The parlay ID
-     * @param isYes Whether this is a YES token (true) or NO token (false)
-     * @return tokenId The minted token ID
-     * @dev YES tokens get odd IDs (1, 3, 5...), NO tokens get even IDs (2, 4, 6...)
+     * @notice Mint the YES/NO pair of a fill
+     * @return yesTokenId The minted YES token ID
+     * @return noTokenId The minted NO token ID
+     * @dev YES tokens get odd IDs (1, 3, 5...), NO tokens get even IDs (2, 4, 6...).
+     *      Minting both in one call saves ParlayMarket an external call per fill.
      */
-    function mint(address to, uint256 parlayId, bool isYes) external onlyParlayMarket returns (uint256) {
-        require(to != address(0), "Mint to zero address");
+    function mintPair(address yesHolder, address noHolder, uint256 parlayId) external onlyParlayMarket returns (uint256 yesTokenId, uint256 noTokenId) {
+        yesTokenId = _mint(yesHolder, parlayId, true);
+        noTokenId = _mint(noHolder, parlayId, false);
+    }
+    
+    function _mint(address to, uint256 parlayId, bool isYes) internal returns (uint256) {
+        if (to == address(0)) revert MintToZeroAddress();
         
         // YES tokens: odd numbers (1, 3, 5...)
         // NO tokens: even numbers (2, 4, 6...)
         uint256 tokenId = _tokenIdCounter++;
+        _addTokenToOwnerEnumeration(to, tokenId);
+        _addTokenToAllTokensEnumeration(tokenId);
         _owners[tokenId] = to;
         _balances[to] += 1;
-        _totalSupply += 1;
+        _positionCounts[to][parlayId] += 1;
         tokenToParlayId[tokenId] = parlayId;
         tokenSide[tokenId] = isYes;
         
@@ -98,14 +130,23 @@ contract ParlayToken {
     }
     
     /**
-     * @notice Burn a token (called after settlement)
+     * @notice Burn a fill's YES/NO pair (called after settlement)
+     * @return yesHolder The holder the YES token was burned from
+     * @return noHolder The holder the NO token was burned from
      */
-    function burn(uint256 tokenId) external onlyParlayMarket {
-        address owner = _owners[tokenId];
-        require(owner != address(0), "Token does not exist");
+    function burnPair(uint256 yesTokenId, uint256 noTokenId) external onlyParlayMarket returns (address yesHolder, address noHolder) {
+        yesHolder = _burn(yesTokenId);
+        noHolder = _burn(noTokenId);
+    }
+    
+    function _burn(uint256 tokenId) internal returns (address owner) {
+        owner = _owners[tokenId];
+        if (owner == address(0)) revert TokenDoesNotExist();
         
+        _removeTokenFromOwnerEnumeration(owner, tokenId);
+        _removeTokenFromAllTokensEnumeration(tokenId);
         _balances[owner] -= 1;
-        _totalSupply -= 1;
+        _positionCounts[owner][tokenToParlayId[tokenId]] -= 1;
         delete _owners[tokenId];
         delete _tokenApprovals[tokenId];
         delete tokenToParlayId[tokenId];
@@ -124,111 +165,20 @@ contract ParlayToken {
         return
             interfaceId == _INTERFACE_ID_ERC165 ||
             interfaceId == _INTERFACE_ID_ERC721 ||
-            interfaceId == _INTERFACE_ID_ERC721_METADATA;
+            interfaceId == _INTERFACE_ID_ERC721_METADATA ||
+            interfaceId == _INTERFACE_ID_ERC721_ENUMERABLE ||
+            interfaceId == _INTERFACE_ID_ERC4494;
     }
     
     // ERC-721 Metadata
     
     /**
      * @notice Get metadata URI for a token
-     * @dev Returns JSON metadata for the NFT
+     * @dev Returns base64 JSON metadata with an on-chain SVG of the position, rendered by ParlayTokenRenderer
      */
     function tokenURI(uint256 tokenId) external view returns (string memory) {
-        require(_owners[tokenId] != address(0), "Token does not exist");
-        
-        uint256 parlayId = tokenToParlayId[tokenId];
-        bool isYes = tokenSide[tokenId];
-        
-        // Get the first leg's image URL from the parlay
-        string memory imageUrl = "";
-        try IParlayMarket(parlayMarket).getParlay(parlayId) returns (
-            address,
-            address,
-            string memory,
-            bytes32[] memory,
-            uint8[] memory,
-            string[] memory,
-            string[] memory imageUrls,
-            uint256,
-            uint256,
-            uint256,
-            uint8,
-            bool,
-            uint256,
-            uint256
-        ) {
-            if (imageUrls.length > 0 && bytes(imageUrls[0]).length > 0) {
-                imageUrl = imageUrls[0];
-            }
-        } catch {
-            // If query fails, leave imageUrl empty
-        }
-        
-        // Construct JSON metadata
-        string memory side = isYes ? "YES" : "NO";
-        string memory json;
-        
-        if (bytes(imageUrl).length > 0) {
-            // Include image in metadata
-            json = string(abi.encodePacked(
-                '{"name":"ParlayMarket Position #',
-                _toString(tokenId),
-                '","description":"',
-                side,
-                ' position for Parlay #',
-                _toString(parlayId),
-                '","image":"',
-                imageUrl,
-                '","attributes":[{"trait_type":"Side","value":"',
-                side,
-                '"},{"trait_type":"Parlay ID","value":"',
-                _toString(parlayId),
-                '"}]}'
-            ));
-        } else {
-            // No image available
-            json = string(abi.encodePacked(
-                '{"name":"ParlayMarket Position #',
-                _toString(tokenId),
-                '","description":"',
-                side,
-                ' position for Parlay #',
-                _toString(parlayId),
-                '","attributes":[{"trait_type":"Side","value":"',
-                side,
-                '"},{"trait_type":"Parlay ID","value":"',
-                _toString(parlayId),
-                '"}]}'
-            ));
-        }
-        
-        // Return as data URI
-        return string(abi.encodePacked(
-            'data:application/json;utf8,',
-            json
-        ));
-    }
-    
-    /**
-     * @notice Convert uint256 to string
-     */
-    function _toString(uint256 value) internal pure returns (string memory) {
-        if (value == 0) {
-            return "0";
-        }
-        uint256 temp = value;
-        uint256 digits;
-        while (temp != 0) {
-            digits++;
-            temp /= 10;
-        }
-        bytes memory buffer = new bytes(digits);
-        while (value != 0) {
-            digits -= 1;
-            buffer[digits] = bytes1(uint8(48 + uint256(value % 10)));
-            value /= 10;
-        }
-        return string(buffer);
+        if (_owners[tokenId] == address(0)) revert TokenDoesNotExist();
+        return renderer.tokenURI(parlayMarket, tokenId, tokenToParlayId[tokenId], tokenSide[tokenId]);
     }
     
     // Standard ERC-721 functions
@@ -238,29 +188,73 @@ contract ParlayToken {
      * @return The total supply of tokens
      */
     function totalSupply() external view returns (uint256) {
-        return _totalSupply;
+        return _allTokens.length;
+    }
+    
+    // ERC-721 Enumerable
+    
+    /**
+     * @notice Token ID owned by an account at a given index of its token list
+     * @dev Order is not stable: it changes as tokens are transferred or burned
+     */
+    function tokenOfOwnerByIndex(address owner, uint256 index) external view returns (uint256) {
+        if (index >= _balances[owner]) revert OwnerIndexOutOfBounds();
+        return _ownedTokens[owner][index];
+    }
+    
+    /**
+     * @notice Token ID at a given index of all existing tokens
+     */
+    function tokenByIndex(uint256 index) external view returns (uint256) {
+        if (index >= _allTokens.length) revert GlobalIndexOutOfBounds();
+        return _allTokens[index];
+    }
+    
+    /**
+     * @notice All positions currently held by an account
+     * @param owner The account to look up
+     * @return positions Token ID, parlay ID and side of each token the account owns
+     */
+    function positionsOf(address owner) external view returns (Position[] memory positions) {
+        uint256 balance = _balances[owner];
+        positions = new Position[](balance);
+        for (uint256 i = 0; i < balance; i++) {
+            uint256 tokenId = _ownedTokens[owner][i];
+            positions[i] = Position({
+                tokenId: tokenId,
+                parlayId: tokenToParlayId[tokenId],
+                isYes: tokenSide[tokenId]
+            });
+        }
+    }
+    
+    /**
+     * @notice Whether an account currently holds any position token of a parlay
+     */
+    function holdsPosition(address owner, uint256 parlayId) external view returns (bool) {
+        return _positionCounts[owner][parlayId] > 0;
     }
     
     function balanceOf(address owner) external view returns (uint256) {
-        require(owner != address(0), "Zero address");
+        if (owner == address(0)) revert ZeroAddress();
         return _balances[owner];
     }
     
     function ownerOf(uint256 tokenId) external view returns (address) {
         address owner = _owners[tokenId];
-        require(owner != address(0), "Token does not exist");
+        if (owner == address(0)) revert TokenDoesNotExist();
         return owner;
     }
     
     function approve(address to, uint256 tokenId) external {
         address owner = _owners[tokenId];
-        require(msg.sender == owner || _operatorApprovals[owner][msg.sender], "Not authorized");
+        if (msg.sender != owner && !_operatorApprovals[owner][msg.sender]) revert NotAuthorized();
         _tokenApprovals[tokenId] = to;
         emit Approval(owner, to, tokenId);
     }
     
     function getApproved(uint256 tokenId) external view returns (address) {
-        require(_owners[tokenId] != address(0), "Token does not exist");
+        if (_owners[tokenId] == address(0)) revert TokenDoesNotExist();
         return _tokenApprovals[tokenId];
     }
     
@@ -273,21 +267,77 @@ contract ParlayToken {
         return _operatorApprovals[owner][operator];
     }
     
+    // EIP-4494 Permit
+    
+    /**
+     * @notice Approve a spender for a token with the owner's EIP-712 signature instead of a transaction
+     * @param spender Address to approve
+     * @param tokenId The token to approve
+     * @param deadline Timestamp after which the signature is no longer valid
+     * @param sig 65-byte signature from the owner or one of its approved-for-all operators
+     * @dev Anyone can submit the permit, e.g. a marketplace listing the token in the same transaction
+     */
+    function permit(address spender, uint256 tokenId, uint256 deadline, bytes memory sig) external {
+        if (block.timestamp > deadline) revert PermitExpired();
+        address owner = _owners[tokenId];
+        if (owner == address(0)) revert TokenDoesNotExist();
+        if (spender == owner) revert ApprovalToCurrentOwner();
+        
+        bytes32 digest = keccak256(abi.encodePacked(
+            "\x19\x01",
+            DOMAIN_SEPARATOR(),
+            keccak256(abi.encode(PERMIT_TYPEHASH, spender, tokenId, _nonces[tokenId], deadline))
+        ));
+        address signer = _recoverSigner(digest, sig);
+        if (signer != owner && !_operatorApprovals[owner][signer]) revert InvalidPermitSignature();
+        
+        _nonces[tokenId] += 1;
+        _tokenApprovals[tokenId] = spender;
+        emit Approval(owner, spender, tokenId);
+    }
+    
+    /**
+     * @notice Nonce the next permit for a token must be signed with
+     */
+    function nonces(uint256 tokenId) external view returns (uint256) {
+        if (_owners[tokenId] == address(0)) revert TokenDoesNotExist();
+        return _nonces[tokenId];
+    }
+    
+    /**
+     * @notice EIP-712 domain separator for permit signatures
+     */
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            EIP712_DOMAIN_TYPEHASH,
+            keccak256(bytes(name)),
+            keccak256(bytes("1")),
+            block.chainid,
+            address(this)
+        ));
+    }
+    
     function transferFrom(address from, address to, uint256 tokenId) public {
         address owner = _owners[tokenId];
-        require(owner == from, "From address mismatch");
-        require(to != address(0), "Transfer to zero address");
-        require(
-            msg.sender == owner || 
-            _tokenApprovals[tokenId] == msg.sender || 
-            _operatorApprovals[owner][msg.sender],
-            "Not authorized"
-        );
+        if (owner != from) revert FromAddressMismatch();
+        if (to == address(0)) revert TransferToZeroAddress();
+        if (
+            msg.sender != owner &&
+            _tokenApprovals[tokenId] != msg.sender &&
+            !_operatorApprovals[owner][msg.sender]
+        ) revert NotAuthorized();
         
+        // Remove before adding so a transfer to self keeps the owner's list intact
+        _removeTokenFromOwnerEnumeration(from, tokenId);
         _balances[from] -= 1;
+        _addTokenToOwnerEnumeration(to, tokenId);
         _balances[to] += 1;
+        uint256 parlayId = tokenToParlayId[tokenId];
+        _positionCounts[from][parlayId] -= 1;
+        _positionCounts[to][parlayId] += 1;
         _owners[tokenId] = to;
         delete _tokenApprovals[tokenId];
+        _nonces[tokenId] += 1;
         
         emit Transfer(from, to, tokenId);
     }
@@ -309,6 +359,76 @@ contract ParlayToken {
         _checkOnERC721Received(from, to, tokenId, data);
     }
     
+    /**
+     * @notice Append a token to an owner's list; must run before the owner's balance is increased
+     */
+    function _addTokenToOwnerEnumeration(address to, uint256 tokenId) private {
+        uint256 index = _balances[to];
+        _ownedTokens[to][index] = tokenId;
+        _ownedTokensIndex[tokenId] = index;
+    }
+    
+    /**
+     * @notice Remove a token from an owner's list by moving the last token into its slot;
+     * must run before the owner's balance is decreased
+     */
+    function _removeTokenFromOwnerEnumeration(address from, uint256 tokenId) private {
+        uint256 lastIndex = _balances[from] - 1;
+        uint256 index = _ownedTokensIndex[tokenId];
+        
+        if (index != lastIndex) {
+            uint256 lastTokenId = _ownedTokens[from][lastIndex];
+            _ownedTokens[from][index] = lastTokenId;
+            _ownedTokensIndex[lastTokenId] = index;
+        }
+        
+        delete _ownedTokensIndex[tokenId];
+        delete _ownedTokens[from][lastIndex];
+    }
+    
+    function _addTokenToAllTokensEnumeration(uint256 tokenId) private {
+        _allTokensIndex[tokenId] = _allTokens.length;
+        _allTokens.push(tokenId);
+    }
+    
+    function _removeTokenFromAllTokensEnumeration(uint256 tokenId) private {
+        uint256 lastIndex = _allTokens.length - 1;
+        uint256 index = _allTokensIndex[tokenId];
+        uint256 lastTokenId = _allTokens[lastIndex];
+        
+        _allTokens[index] = lastTokenId;
+        _allTokensIndex[lastTokenId] = index;
+        
+        delete _allTokensIndex[tokenId];
+        _allTokens.pop();
+    }
+    
+    /**
+     * @notice Recover the signer of a digest from a 65-byte (r, s, v) signature
+     */
+    function _recoverSigner(bytes32 digest, bytes memory sig) private pure returns (address) {
+        if (sig.length != 65) revert InvalidSignatureLength();
+        
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := mload(add(sig, 32))
+            s := mload(add(sig, 64))
+            v := byte(0, mload(add(sig, 96)))
+        }
+        
+        // Reject malleable signatures (upper-half s values)
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) revert InvalidSignature();
+        if (v < 27) {
+            v += 27;
+        }
+        
+        address signer = ecrecover(digest, v, r, s);
+        if (signer == address(0)) revert InvalidSignature();
+        return signer;
+    }
+    
     /**
      * @notice Internal function to check if recipient implements IERC721Receiver
      */
@@ -320,10 +440,10 @@ contract ParlayToken {
     ) private {
         if (to.code.length > 0) {
             try IERC721Receiver(to).onERC721Received(msg.sender, from, tokenId, data) returns (bytes4 retval) {
-                require(retval == _ERC721_RECEIVED, "ERC721: transfer to non ERC721Receiver implementer");
+                if (retval != _ERC721_RECEIVED) revert TransferToNonERC721Receiver();
             } catch (bytes memory reason) {
                 if (reason.length == 0) {
-                    revert("ERC721: transfer to non ERC721Receiver implementer");
+                    revert TransferToNonERC721Receiver();
                 } else {
                     assembly {
                         revert(add(32, reason), mload(reason))
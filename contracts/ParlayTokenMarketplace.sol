@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./ParlayToken.sol";
+
+/**
+ * @title ParlayTokenMarketplace
+ * @notice Escrow-free secondary market for ParlayToken positions priced in native FLR
+ * @dev Sellers keep their token and approve this contract; a purchase moves the token and pays the
+ *      seller in one transaction. Winnings follow ownerOf, so the buyer takes over the position.
+ */
+contract ParlayTokenMarketplace {
+    struct Listing {
+        address seller;
+        uint256 price;      // Asking price in native FLR
+        uint256 expiry;     // Timestamp after which the listing can no longer be bought
+        uint256 nonce;      // Token's permit nonce when listed; any transfer or permit since then bumps it
+    }
+
+    ParlayToken public immutable parlayToken;
+
+    // One listing per token; relisting replaces it
+    mapping(uint256 => Listing) private _listings;
+
+    event PositionListed(uint256 indexed tokenId, address indexed seller, uint256 price, uint256 expiry);
+    event ListingCancelled(uint256 indexed tokenId, address indexed seller);
+    event PositionSold(uint256 indexed tokenId, address indexed seller, address indexed buyer, uint256 price);
+
+    error NotTokenOwner();
+    error MarketplaceNotApproved();
+    error PriceNotPositive();
+    error ExpiryInPast();
+    error NotListed();
+    error ListingExpired();
+    error ListingStale();
+    error CannotBuyOwnListing();
+    error IncorrectPayment();
+    error NotSellerOrOwner();
+    error PaymentFailed();
+
+    constructor(address _parlayToken) {
+        parlayToken = ParlayToken(_parlayToken);
+    }
+
+    /**
+     * @notice List a position for sale
+     * @param tokenId The ParlayToken to sell
+     * @param price Asking price in native FLR
+     * @param expiry Timestamp after which the listing can no longer be bought
+     * @dev The caller must own the token and have approved this contract for it (or for all tokens)
+     */
+    function listPosition(uint256 tokenId, uint256 price, uint256 expiry) external {
+        _listPosition(tokenId, price, expiry);
+    }
+
+    /**
+     * @notice List a position using an EIP-4494 permit instead of a separate approval transaction
+     * @param tokenId The ParlayToken to sell
+     * @param price Asking price in native FLR
+     * @param expiry Timestamp after which the listing can no longer be bought
+     * @param deadline Deadline the permit was signed with
+     * @param sig The caller's permit signature approving this contract for the token
+     */
+    function listPositionWithPermit(
+        uint256 tokenId,
+        uint256 price,
+        uint256 expiry,
+        uint256 deadline,
+        bytes calldata sig
+    ) external {
+        parlayToken.permit(address(this), tokenId, deadline, sig);
+        _listPosition(tokenId, price, expiry);
+    }
+
+    /**
+     * @notice Remove a listing
+     * @param tokenId The listed ParlayToken
+     * @dev Callable by the seller, or by the token's current owner to clear a listing left behind by a transfer
+     */
+    function cancelListing(uint256 tokenId) external {
+        Listing memory listing = _listings[tokenId];
+        if (listing.seller == address(0)) revert NotListed();
+        if (msg.sender != listing.seller && msg.sender != _ownerOf(tokenId)) revert NotSellerOrOwner();
+
+        delete _listings[tokenId];
+
+        emit ListingCancelled(tokenId, listing.seller);
+    }
+
+    /**
+     * @notice Buy a listed position, sending exactly the asking price
+     * @param tokenId The listed ParlayToken
+     * @dev Reverts if the seller no longer owns the token (transferred, sold elsewhere or burned at settlement),
+     *      or if the token has moved since it was listed, even if it has since come back to the seller
+     */
+    function buyPosition(uint256 tokenId) external payable {
+        Listing memory listing = _listings[tokenId];
+        if (listing.seller == address(0)) revert NotListed();
+        if (block.timestamp > listing.expiry) revert ListingExpired();
+        if (_ownerOf(tokenId) != listing.seller || parlayToken.nonces(tokenId) != listing.nonce) revert ListingStale();
+        if (msg.sender == listing.seller) revert CannotBuyOwnListing();
+        if (msg.value != listing.price) revert IncorrectPayment();
+
+        delete _listings[tokenId];
+
+        parlayToken.safeTransferFrom(listing.seller, msg.sender, tokenId);
+
+        (bool success, ) = payable(listing.seller).call{value: msg.value}("");
+        if (!success) revert PaymentFailed();
+
+        emit PositionSold(tokenId, listing.seller, msg.sender, listing.price);
+    }
+
+    /**
+     * @notice Get a token's listing, whether or not it can still be bought
+     * @return seller The listing seller, or address(0) if not listed
+     * @return price Asking price in native FLR
+     * @return expiry Timestamp after which the listing can no longer be bought
+     */
+    function getListing(uint256 tokenId) external view returns (address seller, uint256 price, uint256 expiry) {
+        Listing memory listing = _listings[tokenId];
+        return (listing.seller, listing.price, listing.expiry);
+    }
+
+    /**
+     * @notice Whether a listing can be bought right now
+     * @dev False once the listing expires, the token is transferred or permitted again, or the approval is revoked
+     */
+    function isListingActive(uint256 tokenId) external view returns (bool) {
+        Listing memory listing = _listings[tokenId];
+        return listing.seller != address(0) &&
+            block.timestamp <= listing.expiry &&
+            _ownerOf(tokenId) == listing.seller &&
+            parlayToken.nonces(tokenId) == listing.nonce &&
+            _isApproved(listing.seller, tokenId);
+    }
+
+    function _listPosition(uint256 tokenId, uint256 price, uint256 expiry) internal {
+        if (parlayToken.ownerOf(tokenId) != msg.sender) revert NotTokenOwner();
+        if (!_isApproved(msg.sender, tokenId)) revert MarketplaceNotApproved();
+        if (price == 0) revert PriceNotPositive();
+        if (expiry <= block.timestamp) revert ExpiryInPast();
+
+        // Read after any permit, which bumps the nonce, so only later transfers or permits end the listing
+        _listings[tokenId] = Listing({
+            seller: msg.sender,
+            price: price,
+            expiry: expiry,
+            nonce: parlayToken.nonces(tokenId)
+        });
+
+        emit PositionListed(tokenId, msg.sender, price, expiry);
+    }
+
+    /**
+     * @notice Current owner of a token, or address(0) once it has been burned
+     */
+    function _ownerOf(uint256 tokenId) internal view returns (address) {
+        try parlayToken.ownerOf(tokenId) returns (address owner) {
+            return owner;
+        } catch {
+            return address(0);
+        }
+    }
+
+    function _isApproved(address owner, uint256 tokenId) internal view returns (bool) {
+        return parlayToken.getApproved(tokenId) == address(this) ||
+            parlayToken.isApprovedForAll(owner, address(this));
+    }
+}
@@ -0,0 +1,462 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./interfaces/IPolymarketOracle.sol";
+
+/**
+ * @title IParlayMarketView
+ * @notice The ParlayMarket views needed to render a position
+ */
+interface IParlayMarketView {
+    struct Fill {
+        address taker;
+        uint256 takerStake;
+        uint256 makerStake;
+        uint256 yesTokenId;
+        uint256 noTokenId;
+    }
+
+    function oracle() external view returns (IPolymarketOracle);
+
+    function getParlay(uint256 parlayId) external view returns (
+        address maker,
+        address taker,
+        string memory name,
+        bytes32[] memory conditionIds,
+        uint8[] memory requiredOutcomes,
+        string[] memory legNames,
+        string[] memory imageUrls,
+        uint256 makerStake,
+        uint256 takerStake,
+        uint256 expiry,
+        uint8 status,
+        bool makerIsYes,
+        uint256 yesTokenId,
+        uint256 noTokenId,
+        address collateralToken,
+        uint256 filledTakerStake,
+        uint256 filledMakerStake
+    );
+
+    function getParlayType(uint256 parlayId) external view returns (uint256 minCorrectLegs, uint256 roundRobinId);
+
+    function getFills(uint256 parlayId) external view returns (Fill[] memory);
+}
+
+/**
+ * @title IERC20Metadata
+ * @notice Optional ERC-20 metadata used to label stakes
+ */
+interface IERC20Metadata {
+    function symbol() external view returns (string memory);
+    function decimals() external view returns (uint8);
+}
+
+/**
+ * @title Base64
+ * @notice Base64 encoding for data URIs
+ */
+library Base64 {
+    bytes internal constant TABLE = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+    function encode(bytes memory data) internal pure returns (string memory) {
+        bytes memory result = new bytes(4 * ((data.length + 2) / 3));
+        uint256 j = 0;
+        for (uint256 i = 0; i < data.length; i += 3) {
+            uint256 triple = uint256(uint8(data[i])) << 16;
+            if (i + 1 < data.length) triple |= uint256(uint8(data[i + 1])) << 8;
+            if (i + 2 < data.length) triple |= uint256(uint8(data[i + 2]));
+
+            result[j++] = TABLE[(triple >> 18) & 63];
+            result[j++] = TABLE[(triple >> 12) & 63];
+            result[j++] = i + 1 < data.length ? TABLE[(triple >> 6) & 63] : bytes1("=");
+            result[j++] = i + 2 < data.length ? TABLE[triple & 63] : bytes1("=");
+        }
+        return string(result);
+    }
+}
+
+/**
+ * @title ParlayTokenRenderer
+ * @notice Builds fully on-chain ParlayToken metadata: base64 JSON with an SVG image of the position
+ * @dev Stateless and read-only, so ParlayToken can call it for any ParlayMarket. Leg results are read
+ *      from the market's oracle on every call, so the artwork updates as legs resolve.
+ */
+contract ParlayTokenRenderer {
+    // Everything the artwork shows about one position
+    struct Position {
+        uint256 tokenId;
+        uint256 parlayId;
+        bool isYes;
+        bool isMaker;               // Token is on the maker's side
+        string name;
+        bytes32[] conditionIds;
+        uint8[] requiredOutcomes;
+        string[] legNames;
+        uint8 status;
+        uint256 minCorrectLegs;
+        uint256 stake;              // This side's stake in the token's fill
+        uint256 pot;                // Both stakes of the token's fill
+        string symbol;
+        uint8 decimals;
+    }
+
+    // Longest leg and parlay names drawn before truncating, in bytes
+    uint256 private constant MAX_NAME_BYTES = 30;
+    uint256 private constant MAX_LEG_NAME_BYTES = 34;
+
+    /**
+     * @notice Metadata URI for a ParlayToken position
+     * @param market The ParlayMarket that minted the token
+     * @param tokenId The token to render
+     * @param parlayId The parlay the token belongs to
+     * @param isYes Whether the token is the YES side
+     * @return A data:application/json;base64 URI with an embedded SVG image
+     */
+    function tokenURI(
+        address market,
+        uint256 tokenId,
+        uint256 parlayId,
+        bool isYes
+    ) external view returns (string memory) {
+        Position memory position = _loadPosition(IParlayMarketView(market), tokenId, parlayId, isYes);
+        string memory side = isYes ? "YES" : "NO";
+
+        bytes memory json = abi.encodePacked(
+            '{"name":"',
+            _escapeJson(position.name),
+            ' - ',
+            side,
+            ' #',
+            _toString(tokenId),
+            '","description":"',
+            side,
+            ' position in Parlay #',
+            _toString(parlayId),
+            ' on ParlayMarket. Leg results update live from the oracle.","image":"data:image/svg+xml;base64,',
+            Base64.encode(_renderSvg(IParlayMarketView(market), position)),
+            '",',
+            _attributes(position),
+            '}'
+        );
+
+        return string(abi.encodePacked("data:application/json;base64,", Base64.encode(json)));
+    }
+
+    /**
+     * @notice Gather the parlay, the token's fill and the collateral labels for a position
+     */
+    function _loadPosition(
+        IParlayMarketView market,
+        uint256 tokenId,
+        uint256 parlayId,
+        bool isYes
+    ) internal view returns (Position memory position) {
+        position.tokenId = tokenId;
+        position.parlayId = parlayId;
+        position.isYes = isYes;
+
+        bool makerIsYes;
+        address collateralToken;
+        (
+            ,
+            ,
+            position.name,
+            position.conditionIds,
+            position.requiredOutcomes,
+            position.legNames,
+            ,
+            ,
+            ,
+            ,
+            position.status,
+            makerIsYes,
+            ,
+            ,
+            collateralToken,
+            ,
+        ) = market.getParlay(parlayId);
+        position.isMaker = isYes == makerIsYes;
+        if (bytes(position.name).length == 0) {
+            position.name = string(abi.encodePacked("Parlay #", _toString(parlayId)));
+        }
+        (position.minCorrectLegs, ) = market.getParlayType(parlayId);
+
+        // Each fill mints its own pair, so the stakes come from the fill that minted this token
+        IParlayMarketView.Fill[] memory fills = market.getFills(parlayId);
+        for (uint256 i = 0; i < fills.length; i++) {
+            if (fills[i].yesTokenId == tokenId || fills[i].noTokenId == tokenId) {
+                position.stake = position.isMaker ? fills[i].makerStake : fills[i].takerStake;
+                position.pot = fills[i].makerStake + fills[i].takerStake;
+                break;
+            }
+        }
+
+        position.symbol = "FLR";
+        position.decimals = 18;
+        if (collateralToken != address(0)) {
+            try IERC20Metadata(collateralToken).symbol() returns (string memory symbol) {
+                position.symbol = symbol;
+            } catch {
+                position.symbol = "TOKEN";
+            }
+            try IERC20Metadata(collateralToken).decimals() returns (uint8 decimals) {
+                position.decimals = decimals;
+            } catch {}
+        }
+    }
+
+    /**
+     * @notice Draw the position card: header with side badge, one row per leg with its live result, stakes footer
+     */
+    function _renderSvg(IParlayMarketView market, Position memory position) internal view returns (bytes memory) {
+        uint256 legCount = position.conditionIds.length;
+        uint256 height = 190 + legCount * 30;
+        string memory sideColor = position.isYes ? "#22c55e" : "#ef4444";
+
+        bytes memory svg = abi.encodePacked(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="400" height="',
+            _toString(height),
+            '" viewBox="0 0 400 ',
+            _toString(height),
+            '" font-family="Helvetica,Arial,sans-serif"><rect width="400" height="',
+            _toString(height),
+            '" rx="20" fill="#0a0a0a"/><rect x="1" y="1" width="398" height="',
+            _toString(height - 2),
+            '" rx="19" fill="none" stroke="',
+            sideColor,
+            '" stroke-opacity="0.5"/>',
+            _renderHeader(position, sideColor)
+        );
+
+        IPolymarketOracle oracle = market.oracle();
+        for (uint256 i = 0; i < legCount; i++) {
+            svg = abi.encodePacked(svg, _renderLeg(oracle, position, i));
+        }
+
+        return abi.encodePacked(svg, _renderFooter(position, height), '</svg>');
+    }
+
+    function _renderHeader(Position memory position, string memory sideColor) internal pure returns (bytes memory) {
+        uint256 legCount = position.conditionIds.length;
+        string memory requirement = position.minCorrectLegs > 0 && position.minCorrectLegs < legCount
+            ? string(abi.encodePacked(_toString(position.minCorrectLegs), " of ", _toString(legCount), " legs must hit"))
+            : string(abi.encodePacked("All ", _toString(legCount), " legs must hit"));
+
+        return abi.encodePacked(
+            '<text x="24" y="40" font-size="12" fill="#a3a3a3">PARLAY #',
+            _toString(position.parlayId),
+            ' \xc2\xb7 ',
+            _statusString(position.status),
+            '</text><text x="24" y="70" font-size="20" font-weight="bold" fill="#ffffff">',
+            _escapeXml(_truncate(position.name, MAX_NAME_BYTES)),
+            '</text><rect x="316" y="22" width="60" height="28" rx="14" fill="',
+            sideColor,
+            '"/><text x="346" y="41" font-size="14" font-weight="bold" fill="#0a0a0a" text-anchor="middle">',
+            position.isYes ? "YES" : "NO",
+            '</text><text x="24" y="96" font-size="12" fill="#a3a3a3">',
+            requirement,
+            '</text>'
+        );
+    }
+
+    /**
+     * @notice One leg row: live result mark, leg name and the outcome the leg needs
+     */
+    function _renderLeg(
+        IPolymarketOracle oracle,
+        Position memory position,
+        uint256 index
+    ) internal view returns (bytes memory) {
+        uint8 required = position.requiredOutcomes[index];
+        string memory mark = "\xe2\x80\xa2"; // Bullet while pending
+        string memory markColor = "#a3a3a3";
+
+        try oracle.getOutcome(position.conditionIds[index]) returns (bool resolved, uint8 outcome) {
+            if (resolved && outcome == 2) {
+                (mark, markColor) = ("\xe2\x88\x85", "#eab308"); // Empty set for a void leg
+            } else if (resolved && outcome == required) {
+                (mark, markColor) = ("\xe2\x9c\x93", "#22c55e"); // Check mark
+            } else if (resolved) {
+                (mark, markColor) = ("\xe2\x9c\x97", "#ef4444"); // Ballot X
+            }
+        } catch {}
+
+        string memory y = _toString(130 + index * 30);
+        return abi.encodePacked(
+            '<text x="24" y="',
+            y,
+            '" font-size="15" fill="',
+            markColor,
+            '">',
+            mark,
+            '</text><text x="46" y="',
+            y,
+            '" font-size="14" fill="#e5e5e5">',
+            _escapeXml(_truncate(position.legNames[index], MAX_LEG_NAME_BYTES)),
+            '</text><text x="376" y="',
+            y,
+            '" font-size="12" fill="#a3a3a3" text-anchor="end">',
+            _outcomeString(required),
+            '</text>'
+        );
+    }
+
+    function _renderFooter(Position memory position, uint256 height) internal pure returns (bytes memory) {
+        return abi.encodePacked(
+            '<line x1="24" y1="',
+            _toString(height - 70),
+            '" x2="376" y2="',
+            _toString(height - 70),
+            '" stroke="#262626"/><text x="24" y="',
+            _toString(height - 42),
+            '" font-size="12" fill="#a3a3a3">',
+            position.isMaker ? "MAKER STAKE" : "TAKER STAKE",
+            '</text><text x="24" y="',
+            _toString(height - 22),
+            '" font-size="16" font-weight="bold" fill="#ffffff">',
+            _formatAmount(position.stake, position.decimals),
+            ' ',
+            _escapeXml(position.symbol),
+            '</text><text x="376" y="',
+            _toString(height - 42),
+            '" font-size="12" fill="#a3a3a3" text-anchor="end">TOTAL POT</text><text x="376" y="',
+            _toString(height - 22),
+            '" font-size="16" font-weight="bold" fill="#ffffff" text-anchor="end">',
+            _formatAmount(position.pot, position.decimals),
+            ' ',
+            _escapeXml(position.symbol),
+            '</text>'
+        );
+    }
+
+    function _attributes(Position memory position) internal pure returns (bytes memory) {
+        return abi.encodePacked(
+            '"attributes":[{"trait_type":"Side","value":"',
+            position.isYes ? "YES" : "NO",
+            '"},{"trait_type":"Role","value":"',
+            position.isMaker ? "Maker" : "Taker",
+            '"},{"trait_type":"Status","value":"',
+            _statusString(position.status),
+            '"},{"trait_type":"Parlay ID","value":"',
+            _toString(position.parlayId),
+            '"},{"trait_type":"Legs","display_type":"number","value":',
+            _toString(position.conditionIds.length),
+            '},{"trait_type":"Total Pot","value":"',
+            _formatAmount(position.pot, position.decimals),
+            ' ',
+            _escapeJson(position.symbol),
+            '"}]'
+        );
+    }
+
+    function _statusString(uint8 status) internal pure returns (string memory) {
+        if (status == 0) return "OPEN";
+        if (status == 1) return "FILLED";
+        if (status == 2) return "RESOLVED";
+        if (status == 3) return "CANCELLED";
+        if (status == 4) return "INVALID";
+        return "STALE";
+    }
+
+    function _outcomeString(uint8 outcome) internal pure returns (string memory) {
+        if (outcome == 0) return "NO";
+        if (outcome == 1) return "YES";
+        return "INVALID";
+    }
+
+    /**
+     * @notice Format a base-unit amount with up to 4 decimals, e.g. 1500000000000000000 -> "1.5"
+     */
+    function _formatAmount(uint256 amount, uint8 decimals) internal pure returns (string memory) {
+        uint256 unit = 10 ** decimals;
+        string memory whole = _toString(amount / unit);
+
+        uint256 shown = decimals < 4 ? decimals : 4;
+        uint256 fraction = ((amount % unit) * (10 ** shown)) / unit;
+        if (fraction == 0) return whole;
+
+        // Drop trailing zeros, then left-pad what is left to `shown` digits
+        while (fraction % 10 == 0) {
+            fraction /= 10;
+            shown--;
+        }
+        bytes memory digits = new bytes(shown);
+        for (uint256 i = shown; i > 0; i--) {
+            digits[i - 1] = bytes1(uint8(48 + (fraction % 10)));
+            fraction /= 10;
+        }
+        return string(abi.encodePacked(whole, ".", digits));
+    }
+
+    /**
+     * @notice Cut a string to at most maxBytes without splitting a UTF-8 character, adding an ellipsis
+     */
+    function _truncate(string memory value, uint256 maxBytes) internal pure returns (string memory) {
+        bytes memory raw = bytes(value);
+        if (raw.length <= maxBytes) return value;
+
+        uint256 length = maxBytes;
+        while (length > 0 && (uint8(raw[length]) & 0xC0) == 0x80) {
+            length--;
+        }
+        bytes memory cut = new bytes(length);
+        for (uint256 i = 0; i < length; i++) {
+            cut[i] = raw[i];
+        }
+        return string(abi.encodePacked(cut, "\xe2\x80\xa6"));
+    }
+
+    /**
+     * @notice Escape the characters that would break out of SVG text
+     */
+    function _escapeXml(string memory value) internal pure returns (string memory) {
+        bytes memory raw = bytes(value);
+        bytes memory escaped;
+        for (uint256 i = 0; i < raw.length; i++) {
+            bytes1 char = raw[i];
+            if (char == "&") escaped = abi.encodePacked(escaped, "&amp;");
+            else if (char == "<") escaped = abi.encodePacked(escaped, "&lt;");
+            else if (char == ">") escaped = abi.encodePacked(escaped, "&gt;");
+            else if (char == '"') escaped = abi.encodePacked(escaped, "&quot;");
+            else escaped = abi.encodePacked(escaped, char);
+        }
+        return string(escaped);
+    }
+
+    /**
+     * @notice Escape quotes and backslashes and drop control characters for a JSON string
+     */
+    function _escapeJson(string memory value) internal pure returns (string memory) {
+        bytes memory raw = bytes(value);
+        bytes memory escaped;
+        for (uint256 i = 0; i < raw.length; i++) {
+            bytes1 char = raw[i];
+            if (char == '"' || char == "\\") escaped = abi.encodePacked(escaped, "\\", char);
+            else if (uint8(char) >= 0x20) escaped = abi.encodePacked(escaped, char);
+        }
+        return string(escaped);
+    }
+
+    /**
+     * @notice Convert uint256 to string
+     */
+    function _toString(uint256 value) internal pure returns (string memory) {
+        if (value == 0) {
+            return "0";
+        }
+        uint256 temp = value;
+        uint256 digits;
+        while (temp != 0) {
+            digits++;
+            temp /= 10;
+        }
+        bytes memory buffer = new bytes(digits);
+        while (value != 0) {
+            digits -= 1;
+            buffer[digits] = bytes1(uint8(48 + uint256(value % 10)));
+            value /= 10;
+        }
+        return string(buffer);
+    }
+}
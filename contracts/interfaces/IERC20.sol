@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IERC20
+ * @notice Minimal ERC-20 interface for parlay collateral tokens
+ */
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    
+    function allowance(address owner, address spender) external view returns (uint256);
+    
+    function transfer(address to, uint256 amount) external returns (bool);
+    
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
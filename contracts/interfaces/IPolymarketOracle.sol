@@ -20,5 +20,12 @@ interface IPolymarketOracle {
      * @return Whether the market is resolved
      */
     function isResolved(bytes32 conditionId) external view returns (bool);
+    
+    /**
+     * @notice Check if a market has an outcome on record, whether final, still in its challenge period or disputed
+     * @param conditionId The condition ID
+     * @return Whether an outcome has been proposed
+     */
+    function isOutcomeProposed(bytes32 conditionId) external view returns (bool);
 }
 
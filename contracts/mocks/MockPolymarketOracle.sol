@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IPolymarketOracle.sol";
+
+/**
+ * @title MockPolymarketOracle
+ * @notice Test oracle whose outcomes are set directly, without attestations
+ * @dev proposeOutcome simulates an outcome still in its challenge period; setOutcome makes it final
+ */
+contract MockPolymarketOracle is IPolymarketOracle {
+    mapping(bytes32 => bool) private _proposed;
+    mapping(bytes32 => bool) private _resolved;
+    mapping(bytes32 => uint8) private _outcomes;
+
+    function proposeOutcome(bytes32 conditionId, uint8 outcome) external {
+        _proposed[conditionId] = true;
+        _outcomes[conditionId] = outcome;
+    }
+
+    function setOutcome(bytes32 conditionId, uint8 outcome) external {
+        _proposed[conditionId] = true;
+        _resolved[conditionId] = true;
+        _outcomes[conditionId] = outcome;
+    }
+
+    function getOutcome(bytes32 conditionId) external view returns (bool resolved, uint8 outcome) {
+        return (_resolved[conditionId], _outcomes[conditionId]);
+    }
+
+    function isResolved(bytes32 conditionId) external view returns (bool) {
+        return _resolved[conditionId];
+    }
+
+    function isOutcomeProposed(bytes32 conditionId) external view returns (bool) {
+        return _proposed[conditionId];
+    }
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { EventLog } from 'ethers';
+import { getParlayMarketContract, getCollateralTokenInfo } from '@/lib/web3';
+import { ChainName, CollateralToken, NATIVE_COLLATERAL } from '@/lib/contracts';
+
+export function useCollateralTokens(chain: ChainName = 'coston2') {
+  const [tokens, setTokens] = useState<CollateralToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const contract = await getParlayMarketContract(chain);
+      const events = await contract.queryFilter(contract.filters.CollateralTokenUpdated());
+
+      // Replay whitelist updates in chain order; the last update for each token wins
+      const allowed = new Map<string, boolean>();
+      events
+        .filter((event): event is EventLog => event instanceof EventLog)
+        .sort((a, b) =>
+          a.blockNumber !== b.blockNumber ? a.blockNumber - b.blockNumber : a.index - b.index
+        )
+        .forEach((event) => allowed.set(event.args.token as string, event.args.allowed as boolean));
+
+      const whitelisted = Array.from(allowed.entries())
+        .filter(([, isAllowed]) => isAllowed)
+        .map(([token]) => token);
+
+      // Native FLR is always available as collateral
+      const loaded = await Promise.all([
+        getCollateralTokenInfo(NATIVE_COLLATERAL),
+        ...whitelisted.map((token) => getCollateralTokenInfo(token)),
+      ]);
+      setTokens(loaded);
+    } catch (err: any) {
+      console.error('Error fetching collateral tokens:', err);
+      setError(err.message || 'Failed to fetch collateral tokens');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chain]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  return {
+    tokens,
+    isLoading,
+    error,
+    refresh: fetchTokens,
+  };
+}
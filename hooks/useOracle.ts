@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { zeroPadValue, EventLog } from 'ethers';
+import { getOracleContract } from '@/lib/web3';
+import { ChainName, OracleProposal, OracleAdminState, QueuedOracleAction } from '@/lib/contracts';
+
+export function useOracleProposals(conditionIds: string[], chain: ChainName = 'coston2', account?: string | null) {
+  const [proposals, setProposals] = useState<Record<string, OracleProposal>>({});
+  const [disputeBond, setDisputeBond] = useState<bigint | null>(null);
+  // Settled dispute bonds credited to the account and not yet withdrawn
+  const [pendingBond, setPendingBond] = useState<bigint>(BigInt(0));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable dependency for the condition ID list
+  const conditionKey = conditionIds.join(',');
+
+  const fetchProposals = useCallback(async () => {
+    const ids = conditionKey ? conditionKey.split(',') : [];
+    if (ids.length === 0) {
+      setProposals({});
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const oracle = await getOracleContract(chain);
+
+      const [bond, credited, ...results] = await Promise.all([
+        oracle.disputeBond(),
+        account ? oracle.pendingBondWithdrawals(account) : BigInt(0),
+        ...ids.map((conditionId) => oracle.getProposal(zeroPadValue(conditionId, 32))),
+      ]);
+
+      const loaded: Record<string, OracleProposal> = {};
+      ids.forEach((conditionId, idx) => {
+        const data = results[idx];
+        loaded[conditionId] = {
+          conditionId,
+          proposed: data.proposed,
+          outcome: Number(data.outcome),
+          disputeDeadline: Number(data.disputeDeadline),
+          disputed: data.disputed,
+          disputer: data.disputer,
+        };
+      });
+
+      setDisputeBond(bond);
+      setPendingBond(BigInt(credited));
+      setProposals(loaded);
+    } catch (err: any) {
+      console.error('Error fetching oracle proposals:', err);
+      setError(err.message || 'Failed to fetch oracle proposals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conditionKey, chain, account]);
+
+  useEffect(() => {
+    fetchProposals();
+  }, [fetchProposals]);
+
+  return {
+    proposals,
+    disputeBond,
+    pendingBond,
+    isLoading,
+    error,
+    refresh: fetchProposals,
+  };
+}
+
+export function useOracleAdmin(chain: ChainName = 'coston2') {
+  const [state, setState] = useState<OracleAdminState | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchState = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const oracle = await getOracleContract(chain);
+
+      const [
+        owner,
+        pendingOwner,
+        attestorCount,
+        quorumThreshold,
+        challengePeriod,
+        disputeBond,
+        timelockDelay,
+        added,
+        removed,
+        queued,
+        executed,
+        cancelled,
+      ] = await Promise.all([
+        oracle.owner(),
+        oracle.pendingOwner(),
+        oracle.attestorCount(),
+        oracle.quorumThreshold(),
+        oracle.challengePeriod(),
+        oracle.disputeBond(),
+        oracle.timelockDelay(),
+        oracle.queryFilter(oracle.filters.AttestorAdded()),
+        oracle.queryFilter(oracle.filters.AttestorRemoved()),
+        oracle.queryFilter(oracle.filters.ActionQueued()),
+        oracle.queryFilter(oracle.filters.ActionExecuted()),
+        oracle.queryFilter(oracle.filters.ActionCancelled()),
+      ]);
+
+      // Replay add/remove events in chain order to rebuild the current attestor set
+      const events = [...added, ...removed].sort((a, b) =>
+        a.blockNumber !== b.blockNumber ? a.blockNumber - b.blockNumber : a.index - b.index
+      );
+      const attestorSet = new Set<string>();
+      for (const event of events) {
+        if (!(event instanceof EventLog)) continue;
+        const attestor = (event.args.attestor as string).toLowerCase();
+        if (event.eventName === 'AttestorAdded') {
+          attestorSet.add(attestor);
+        } else {
+          attestorSet.delete(attestor);
+        }
+      }
+
+      // Queued actions that have not been executed or cancelled yet
+      const closedActionIds = new Set(
+        [...executed, ...cancelled]
+          .filter((event): event is EventLog => event instanceof EventLog)
+          .map((event) => event.args.actionId as string)
+      );
+      const queuedActions: QueuedOracleAction[] = queued
+        .filter((event): event is EventLog => event instanceof EventLog)
+        .filter((event) => !closedActionIds.has(event.args.actionId))
+        .map((event) => {
+          const data = event.args.data as string;
+          let description = data;
+          try {
+            const call = oracle.interface.parseTransaction({ data });
+            if (call) {
+              description = `${call.name}(${call.args.map((arg: any) => arg.toString()).join(', ')})`;
+            }
+          } catch {
+            // Leave raw call data if it doesn't decode
+          }
+          return {
+            actionId: event.args.actionId,
+            data,
+            eta: Number(event.args.eta),
+            description,
+          };
+        });
+
+      setState({
+        owner,
+        pendingOwner,
+        attestors: Array.from(attestorSet),
+        attestorCount: Number(attestorCount),
+        quorumThreshold: Number(quorumThreshold),
+        challengePeriod: Number(challengePeriod),
+        disputeBond,
+        timelockDelay: Number(timelockDelay),
+        queuedActions,
+      });
+    } catch (err: any) {
+      console.error('Error fetching oracle settings:', err);
+      setError(err.message || 'Failed to fetch oracle settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chain]);
+
+  useEffect(() => {
+    fetchState();
+  }, [fetchState]);
+
+  return {
+    state,
+    isLoading,
+    error,
+    refresh: fetchState,
+  };
+}
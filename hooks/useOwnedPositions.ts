@@ -0,0 +1,51 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getParlayTokenContract } from '@/lib/web3';
+import { ChainName, OwnedPosition } from '@/lib/contracts';
+
+/**
+ * Position tokens an account currently holds, whether minted to it, bought or received by transfer
+ */
+export function useOwnedPositions(account: string | null | undefined, chain: ChainName = 'coston2') {
+  const [positions, setPositions] = useState<OwnedPosition[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPositions = useCallback(async () => {
+    if (!account) {
+      setPositions([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = await getParlayTokenContract(chain);
+      const owned = await token.positionsOf(account);
+      setPositions(
+        owned.map((position: any) => ({
+          tokenId: position.tokenId.toString(),
+          parlayId: Number(position.parlayId),
+          isYes: position.isYes,
+        }))
+      );
+    } catch (err: any) {
+      console.error('Error fetching owned positions:', err);
+      setError(err.message || 'Failed to fetch positions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account, chain]);
+
+  useEffect(() => {
+    fetchPositions();
+  }, [fetchPositions]);
+
+  return {
+    positions,
+    isLoading,
+    error,
+    refresh: fetchPositions,
+  };
+}
@@ -1,8 +1,55 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { getParlayMarketContract, getParlayTokenIds } from '@/lib/web3';
-import { ParlayData, ChainName } from '@/lib/contracts';
+import { Contract } from 'ethers';
+import { getParlayMarketContract, getParlayTokenIds, getCollateralTokenInfo } from '@/lib/web3';
+import { ParlayData, ParlayFill, ParlayCounter, ChainName, NATIVE_COLLATERAL, VoidPolicy, CounterStatus, CancelMode } from '@/lib/contracts';
+
+async function loadFills(contract: Contract, parlayId: number): Promise<ParlayFill[]> {
+  const fills = await contract.getFills(parlayId);
+  return fills.map((fill: any) => ({
+    taker: fill.taker,
+    takerStake: fill.takerStake,
+    makerStake: fill.makerStake,
+    yesTokenId: fill.yesTokenId.toString(),
+    noTokenId: fill.noTokenId.toString(),
+  }));
+}
+
+async function loadCounters(contract: Contract, parlayId: number): Promise<ParlayCounter[]> {
+  const counters = await contract.getCounters(parlayId);
+  return counters.map((counter: any) => ({
+    taker: counter.taker,
+    takerStake: counter.takerStake,
+    makerStake: counter.makerStake,
+    proposedAt: Number(counter.proposedAt),
+    status: Number(counter.status) as CounterStatus,
+  }));
+}
+
+async function loadParlayRules(contract: Contract, parlayId: number) {
+  const [[voidPolicy, legProbabilitiesBps], [minCorrectLegs, roundRobinId], legFillDeadlines, resolutionDeadline, resolverBounty, [allowedTaker, takerAllowlistRoot], cancelMode] = await Promise.all([
+    contract.getVoidPolicy(parlayId),
+    contract.getParlayType(parlayId),
+    contract.getLegFillDeadlines(parlayId),
+    contract.getResolutionDeadline(parlayId),
+    contract.getResolverBounty(parlayId),
+    contract.getTakerRestriction(parlayId),
+    contract.getCancelMode(parlayId),
+  ]);
+  return {
+    voidPolicy: Number(voidPolicy) as VoidPolicy,
+    legProbabilitiesBps: legProbabilitiesBps.map((x: any) => Number(x)) as number[],
+    minCorrectLegs: Number(minCorrectLegs),
+    roundRobinId: Number(roundRobinId),
+    legFillDeadlines: legFillDeadlines.map((x: any) => Number(x)) as number[],
+    resolutionDeadline: Number(resolutionDeadline),
+    resolverBounty: BigInt(resolverBounty),
+    allowedTaker: allowedTaker as string,
+    takerAllowlistRoot: takerAllowlistRoot as string,
+    cancelMode: Number(cancelMode) as CancelMode,
+  };
+}
 
 export function useParlays(chain: ChainName = 'coston2') {
   const [parlays, setParlays] = useState<ParlayData[]>([]);
@@ -46,9 +93,22 @@ export function useParlays(chain: ChainName = 'coston2') {
               noTokenId = data.noTokenId?.toString() || null;
             }
             
+            // Load individual fills (a parlay can be filled by several takers)
+            const fills = await loadFills(contract, i);
+            const counters = await loadCounters(contract, i);
+            
+            // Win threshold, void policy and fill-by cutoffs chosen at creation
+            const rules = await loadParlayRules(contract, i);
+            
+            // Resolve collateral symbol/decimals for display
+            const collateralToken = (Array.isArray(data) ? data[14] : data.collateralToken) || NATIVE_COLLATERAL;
+            const collateral = await getCollateralTokenInfo(collateralToken);
+            
             // Get resolution outcome if status is Resolved (2)
             const status = Number(Array.isArray(data) ? data[10] : data.status);
             let yesWins: boolean | null = null;
+            let protocolFee: bigint | null = null;
+            let voidedLegs: number[] | null = null;
             
             if (status === 2) { // Resolved
               try {
@@ -59,6 +119,8 @@ export function useParlays(chain: ChainName = 'coston2') {
                   // Check if event is EventLog (has args property)
                   if ('args' in event) {
                     yesWins = event.args?.yesWins ?? null;
+                    protocolFee = event.args?.protocolFee ?? null;
+                    voidedLegs = event.args?.voidedLegs?.map((x: any) => Number(x)) ?? null;
                   }
                 }
               } catch (err) {
@@ -83,6 +145,16 @@ export function useParlays(chain: ChainName = 'coston2') {
               yesTokenId: (yesTokenId && yesTokenId !== '0') ? yesTokenId : null,
               noTokenId: (noTokenId && noTokenId !== '0') ? noTokenId : null,
               yesWins,
+              protocolFee,
+              collateralToken,
+              collateralSymbol: collateral.symbol,
+              collateralDecimals: collateral.decimals,
+              filledTakerStake: Array.isArray(data) ? data[15] : data.filledTakerStake,
+              filledMakerStake: Array.isArray(data) ? data[16] : data.filledMakerStake,
+              fills,
+              counters,
+              voidedLegs,
+              ...rules,
             };
           })
         );
@@ -143,9 +215,22 @@ export function useParlay(parlayId: number, chain: ChainName = 'coston2') {
         noTokenId = tokenIds.noTokenId;
       }
       
+      // Load individual fills (a parlay can be filled by several takers)
+      const fills = await loadFills(contract, parlayId);
+      const counters = await loadCounters(contract, parlayId);
+      
+      // Win threshold, void policy and fill-by cutoffs chosen at creation
+      const rules = await loadParlayRules(contract, parlayId);
+      
+      // Resolve collateral symbol/decimals for display
+      const collateralToken = (Array.isArray(data) ? data[14] : data.collateralToken) || NATIVE_COLLATERAL;
+      const collateral = await getCollateralTokenInfo(collateralToken);
+      
       // Get resolution outcome if status is Resolved (2)
       const status = Number(Array.isArray(data) ? data[10] : data.status);
       let yesWins: boolean | null = null;
+      let protocolFee: bigint | null = null;
+      let voidedLegs: number[] | null = null;
       
       if (status === 2) { // Resolved
         try {
@@ -156,6 +241,8 @@ export function useParlay(parlayId: number, chain: ChainName = 'coston2') {
             // Check if event is EventLog (has args property)
             if ('args' in event) {
               yesWins = event.args?.yesWins ?? null;
+              protocolFee = event.args?.protocolFee ?? null;
+              voidedLegs = event.args?.voidedLegs?.map((x: any) => Number(x)) ?? null;
             }
           }
         } catch (err) {
@@ -180,6 +267,16 @@ export function useParlay(parlayId: number, chain: ChainName = 'coston2') {
         yesTokenId: (yesTokenId && yesTokenId !== '0') ? yesTokenId : null,
         noTokenId: (noTokenId && noTokenId !== '0') ? noTokenId : null,
         yesWins,
+        protocolFee,
+        collateralToken,
+        collateralSymbol: collateral.symbol,
+        collateralDecimals: collateral.decimals,
+        filledTakerStake: Array.isArray(data) ? data[15] : data.filledTakerStake,
+        filledMakerStake: Array.isArray(data) ? data[16] : data.filledMakerStake,
+        fills,
+        counters,
+        voidedLegs,
+        ...rules,
       });
     } catch (err: any) {
       console.error('Error fetching parlay:', err);
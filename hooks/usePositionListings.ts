@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getParlayTokenContract, getParlayTokenMarketplaceContract } from '@/lib/web3';
+import { ZeroAddress } from 'ethers';
+import { CONTRACT_ADDRESSES, ChainName, ParlayFill, PositionListing } from '@/lib/contracts';
+
+/**
+ * Current owner and active marketplace listing of every position token minted for a parlay
+ */
+export function usePositionListings(fills: ParlayFill[], chain: ChainName = 'coston2') {
+  const [positions, setPositions] = useState<PositionListing[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Until the marketplace is deployed its address is left as the zero address, and positions just have no listings
+  const hasMarketplace = CONTRACT_ADDRESSES[chain].ParlayTokenMarketplace !== ZeroAddress;
+
+  // Stable dependency for the token ID list
+  const tokenKey = fills.map((fill) => `${fill.yesTokenId}:${fill.noTokenId}`).join(',');
+
+  const fetchPositions = useCallback(async () => {
+    const tokens = tokenKey
+      ? tokenKey.split(',').flatMap((pair) => {
+          const [yesTokenId, noTokenId] = pair.split(':');
+          return [{ tokenId: yesTokenId, isYes: true }, { tokenId: noTokenId, isYes: false }];
+        })
+      : [];
+    if (tokens.length === 0) {
+      setPositions([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      // Owners drive refund eligibility and the sell form, so load them even if the marketplace is unavailable
+      const token = await getParlayTokenContract(chain);
+      const owned = (await Promise.all(
+        tokens.map(async ({ tokenId, isYes }): Promise<PositionListing | null> => {
+          try {
+            return { tokenId, isYes, owner: await token.ownerOf(tokenId), price: null, expiry: null };
+          } catch {
+            // Burned at settlement
+            return null;
+          }
+        })
+      )).filter((position): position is PositionListing => position !== null);
+      setPositions(owned);
+
+      if (!hasMarketplace) return;
+
+      const marketplace = await getParlayTokenMarketplaceContract(chain);
+      const listed = await Promise.all(
+        owned.map(async (position): Promise<PositionListing> => {
+          const [listing, isActive] = await Promise.all([
+            marketplace.getListing(position.tokenId),
+            marketplace.isListingActive(position.tokenId),
+          ]);
+          return {
+            ...position,
+            price: isActive ? listing.price : null,
+            expiry: isActive ? Number(listing.expiry) : null,
+          };
+        })
+      );
+      setPositions(listed);
+    } catch (err: any) {
+      console.error('Error fetching position listings:', err);
+      setError(err.message || 'Failed to fetch position listings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tokenKey, chain, hasMarketplace]);
+
+  useEffect(() => {
+    fetchPositions();
+  }, [fetchPositions]);
+
+  return {
+    positions,
+    hasMarketplace,
+    isLoading,
+    error,
+    refresh: fetchPositions,
+  };
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getParlayMarketContract } from '@/lib/web3';
+import { ChainName } from '@/lib/contracts';
+
+export function useProtocolFee(chain: ChainName = 'coston2') {
+  const [feeBps, setFeeBps] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFee = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const contract = await getParlayMarketContract(chain);
+      setFeeBps(Number(await contract.protocolFeeBps()));
+    } catch (err: any) {
+      console.error('Error fetching protocol fee:', err);
+      setError(err.message || 'Failed to fetch protocol fee');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chain]);
+
+  useEffect(() => {
+    fetchFee();
+  }, [fetchFee]);
+
+  return {
+    feeBps,
+    isLoading,
+    error,
+    refresh: fetchFee,
+  };
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getCollateralTokenInfo } from '@/lib/web3';
+import { fetchSignedOrders } from '@/lib/order-relay';
+import { ChainName, SignedParlayOrder } from '@/lib/contracts';
+
+export interface SignedOrderView extends SignedParlayOrder {
+  collateralSymbol: string;
+  collateralDecimals: number;
+}
+
+export function useSignedOrders(chain: ChainName = 'coston2') {
+  const [orders, setOrders] = useState<SignedOrderView[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const signedOrders = await fetchSignedOrders(chain);
+      const loaded = await Promise.all(
+        signedOrders.map(async (signed) => {
+          const collateral = await getCollateralTokenInfo(signed.order.collateralToken);
+          return {
+            ...signed,
+            collateralSymbol: collateral.symbol,
+            collateralDecimals: collateral.decimals,
+          };
+        })
+      );
+      setOrders(loaded.sort((a, b) => b.createdAt - a.createdAt));
+    } catch (err: any) {
+      console.error('Error fetching signed orders:', err);
+      setError(err.message || 'Failed to fetch signed orders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chain]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  return {
+    orders,
+    isLoading,
+    error,
+    refresh: fetchOrders,
+  };
+}
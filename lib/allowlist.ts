@@ -0,0 +1,59 @@
+/**
+ * Merkle allowlists for private parlays
+ * Matches the proof check in ParlayMarket.fillParlay: leaves are keccak256(abi.encodePacked(taker))
+ * and each pair is hashed in sorted order, so proofs don't need left/right flags.
+ */
+
+import { concat, getAddress, keccak256, solidityPackedKeccak256 } from 'ethers';
+
+function hashLeaf(address: string): string {
+  return solidityPackedKeccak256(['address'], [getAddress(address)]);
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Build every level of the tree, leaves first. Leaves are sorted so the same list always gives the same root;
+ * an unpaired node is carried up to the next level as is.
+ */
+function buildLevels(addresses: string[]): string[][] {
+  const leaves = Array.from(new Set(addresses.map(hashLeaf))).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+/**
+ * Merkle root to store on a parlay for a list of allowed takers
+ */
+export function getAllowlistRoot(addresses: string[]): string {
+  if (addresses.length === 0) throw new Error('Allowlist is empty');
+  const levels = buildLevels(addresses);
+  return levels[levels.length - 1][0];
+}
+
+/**
+ * Proof that an account is on the allowlist, or null if it isn't
+ */
+export function getAllowlistProof(addresses: string[], account: string): string[] | null {
+  const levels = buildLevels(addresses);
+  let index = levels[0].indexOf(hashLeaf(account));
+  if (index === -1) return null;
+
+  const proof: string[] = [];
+  for (const level of levels.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < level.length) proof.push(level[sibling]);
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
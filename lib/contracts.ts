@@ -1,3 +1,4 @@
+import { AbiCoder, keccak256, ZeroAddress, ZeroHash } from 'ethers';
 import abis from '../contracts/abis.json';
 
 // Contract addresses - Update these after deployment
@@ -6,6 +7,7 @@ export const CONTRACT_ADDRESSES = {
   coston2: {
     ParlayMarket: '0xbC0BFF09B80809007013dE8641C946440bb169b1',
     ParlayToken: '0x866cf88e049dfa63D053e2CcE7edeCE734020664',
+    ParlayTokenMarketplace: '0x0000000000000000000000000000000000000000', // TODO: Update after deployment
     FlarePolymarketOracle: '0x0B21dE193392dED3bA77337dd4Ce8465D3d9c7A7',
     FdcVerification: '0x3A1b3220527aBA427d1e13e4b4c48c31460B4d91', // Flare FDC Verification contract
   },
@@ -13,6 +15,7 @@ export const CONTRACT_ADDRESSES = {
   flare: {
     ParlayMarket: '0x0000000000000000000000000000000000000000', // TODO: Update after deployment
     ParlayToken: '0x0000000000000000000000000000000000000000', // TODO: Update after deployment
+    ParlayTokenMarketplace: '0x0000000000000000000000000000000000000000', // TODO: Update after deployment
     FlarePolymarketOracle: '0x0000000000000000000000000000000000000000', // TODO: Update after deployment
     FdcVerification: '0x3A1b3220527aBA427d1e13e4b4c48c31460B4d91', // Flare FDC Verification contract
   },
@@ -45,8 +48,37 @@ export const CHAIN_CONFIG = {
 
 export const ABIS = abis;
 
+// Collateral token address used for parlays staked in native FLR
+export const NATIVE_COLLATERAL = '0x0000000000000000000000000000000000000000';
+
+// Most parlays one round robin can spawn; matches MAX_ROUND_ROBIN_PARLAYS in ParlayMarket.sol
+export const MAX_ROUND_ROBIN_PARLAYS = 20;
+
+// Seconds a counter-offer stays locked before its taker can refund it; matches COUNTER_TIMEOUT in ParlayMarket.sol
+export const COUNTER_TIMEOUT_SECONDS = 24 * 60 * 60;
+
 export type ChainName = keyof typeof CONTRACT_ADDRESSES;
-export type ParlayStatus = 'Created' | 'Filled' | 'Resolved' | 'Cancelled' | 'Invalid';
+export type ParlayStatus = 'Created' | 'Filled' | 'Resolved' | 'Cancelled' | 'Invalid' | 'Stale';
+
+// How a parlay handles legs that resolve INVALID; values match the VoidPolicy enum in ParlayMarket.sol
+export enum VoidPolicy {
+  RefundAll = 0,
+  DropLeg = 1,
+  DropLegReprice = 2,
+}
+
+// When the maker may cancel or update an open parlay; values match the CancelMode enum in ParlayMarket.sol
+export enum CancelMode {
+  Anytime = 0,
+  LockedUntilExpiry = 1,
+}
+
+// Values match the CounterStatus enum in ParlayMarket.sol
+export enum CounterStatus {
+  Open = 0,
+  Accepted = 1,
+  Refunded = 2,
+}
 
 export interface ParlayData {
   id: number;
@@ -65,13 +97,362 @@ export interface ParlayData {
   yesTokenId?: string | null;
   noTokenId?: string | null;
   yesWins?: boolean | null; // Whether YES side won when resolved
+  protocolFee?: bigint | null; // Fee taken from the pot when resolved
+  collateralToken: string;   // NATIVE_COLLATERAL for FLR, otherwise ERC-20 address
+  collateralSymbol: string;
+  collateralDecimals: number;
+  filledTakerStake: bigint;  // Taker stake filled so far (equals takerStake when fully filled)
+  filledMakerStake: bigint;  // Maker stake matched by fills so far
+  fills: ParlayFill[];
+  counters: ParlayCounter[];     // Counter-offers in proposal order; the index is the counter ID
+  voidPolicy: VoidPolicy;
+  legProbabilitiesBps: number[]; // Per-leg probabilities used to reprice when a leg is voided
+  voidedLegs?: number[] | null;  // Indices of legs dropped as INVALID when resolved
+  minCorrectLegs: number;        // Legs that must hit for YES to win (all legs for a standard parlay)
+  roundRobinId: number;          // Round robin this parlay was spawned by, or 0
+  legFillDeadlines: number[];    // Per-leg fill-by cutoffs in Unix seconds (0 = none); empty when unset
+  resolutionDeadline: number;    // Unix seconds after which an unresolved filled parlay can be refunded
+  resolverBounty: bigint;        // Collateral paid to whoever resolves the parlay (0 for none)
+  allowedTaker: string;          // Only this address can fill a private parlay, or the zero address
+  takerAllowlistRoot: string;    // Merkle root of takers allowed to fill a private parlay, or zero
+  cancelMode: CancelMode;        // Whether the maker can cancel or update the offer before expiry
+}
+
+export interface ParlayFill {
+  taker: string;
+  takerStake: bigint;
+  makerStake: bigint;        // Maker stake matched pro rata by this fill
+  yesTokenId: string;
+  noTokenId: string;
+}
+
+// A ParlayToken held by the connected account, from ParlayToken.positionsOf
+export interface OwnedPosition {
+  tokenId: string;
+  parlayId: number;
+  isYes: boolean;
+}
+
+// A ParlayToken position and its ParlayTokenMarketplace listing, if it can be bought right now
+export interface PositionListing {
+  tokenId: string;
+  isYes: boolean;
+  owner: string;
+  price: bigint | null;      // Asking price in native FLR, or null when not actively listed
+  expiry: number | null;     // Unix seconds
+}
+
+// A taker's escrowed offer to take the rest of a parlay for a different taker stake
+export interface ParlayCounter {
+  taker: string;
+  takerStake: bigint;        // Taker collateral offered for all of the unmatched maker stake
+  makerStake: bigint;        // Unmatched maker stake when proposed; the counter lapses if it changes
+  proposedAt: number;        // Unix seconds
+  status: CounterStatus;
+}
+
+// Parlay terms signed off-chain by a maker; amounts are base-unit strings so orders survive JSON
+export interface ParlayOrder {
+  maker: string;
+  name: string;
+  conditionIds: string[];
+  requiredOutcomes: number[];
+  legNames: string[];
+  imageUrls: string[];
+  collateralToken: string;
+  makerStake: string;
+  takerStake: string;
+  expiry: number;
+  resolutionDeadline: number;
+  resolverBounty: string;
+  makerIsYes: boolean;
+  minCorrectLegs: number;
+  voidPolicy: VoidPolicy;
+  legProbabilitiesBps: number[];
+  legFillDeadlines: number[];
+  nonce: string;
+}
+
+export interface SignedParlayOrder {
+  order: ParlayOrder;
+  signature: string;
+  orderHash: string;
+  network: ChainName;
+  createdAt: number;
+}
+
+// EIP-712 types for ParlayOrder; must match PARLAY_ORDER_TYPEHASH in ParlayMarket.sol
+export const PARLAY_ORDER_TYPES = {
+  ParlayOrder: [
+    { name: 'maker', type: 'address' },
+    { name: 'name', type: 'string' },
+    { name: 'conditionIds', type: 'bytes32[]' },
+    { name: 'requiredOutcomes', type: 'uint8[]' },
+    { name: 'legNames', type: 'string[]' },
+    { name: 'imageUrls', type: 'string[]' },
+    { name: 'collateralToken', type: 'address' },
+    { name: 'makerStake', type: 'uint256' },
+    { name: 'takerStake', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'resolutionDeadline', type: 'uint256' },
+    { name: 'resolverBounty', type: 'uint256' },
+    { name: 'makerIsYes', type: 'bool' },
+    { name: 'minCorrectLegs', type: 'uint256' },
+    { name: 'voidPolicy', type: 'uint8' },
+    { name: 'legProbabilitiesBps', type: 'uint16[]' },
+    { name: 'legFillDeadlines', type: 'uint256[]' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+export function getParlayOrderDomain(chain: ChainName = 'coston2') {
+  return {
+    name: 'ParlayMarket',
+    version: '1',
+    chainId: CHAIN_CONFIG[chain].chainId,
+    verifyingContract: CONTRACT_ADDRESSES[chain].ParlayMarket,
+  };
+}
+
+// EIP-712 types for EIP-4494 permits; must match PERMIT_TYPEHASH in ParlayToken.sol
+export const PARLAY_TOKEN_PERMIT_TYPES = {
+  Permit: [
+    { name: 'spender', type: 'address' },
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export function getParlayTokenPermitDomain(chain: ChainName = 'coston2') {
+  return {
+    name: 'ParlayMarket Position',
+    version: '1',
+    chainId: CHAIN_CONFIG[chain].chainId,
+    verifyingContract: CONTRACT_ADDRESSES[chain].ParlayToken,
+  };
+}
+
+export interface CollateralToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface OracleProposal {
+  conditionId: string;
+  proposed: boolean;
+  outcome: number;
+  disputeDeadline: number; // Unix seconds; outcome is final after this if undisputed
+  disputed: boolean;
+  disputer: string;
+}
+
+export interface QueuedOracleAction {
+  actionId: string;
+  data: string;
+  eta: number;               // Unix seconds when the action becomes executable
+  description: string;       // Decoded call, e.g. "addAttestor(0x...)"
+}
+
+export interface OracleAdminState {
+  owner: string;
+  pendingOwner: string;
+  attestors: string[];       // Rebuilt from AttestorAdded/AttestorRemoved events
+  attestorCount: number;
+  quorumThreshold: number;
+  challengePeriod: number;
+  disputeBond: bigint;
+  timelockDelay: number;
+  queuedActions: QueuedOracleAction[];  // Queued and not yet executed or cancelled
 }
 
 export function getParlayStatusString(status: number): ParlayStatus {
-  const statuses: ParlayStatus[] = ['Created', 'Filled', 'Resolved', 'Cancelled', 'Invalid'];
+  const statuses: ParlayStatus[] = ['Created', 'Filled', 'Resolved', 'Cancelled', 'Invalid', 'Stale'];
   return statuses[status] || 'Created';
 }
 
+/**
+ * Whether an account took part in any fill of a parlay
+ */
+export function isParlayTaker(parlay: ParlayData, account?: string | null): boolean {
+  if (!account) return false;
+  return parlay.fills.some((fill) => fill.taker.toLowerCase() === account.toLowerCase());
+}
+
+/**
+ * Whether a parlay is a private offer restricted to a named taker or an allowlist
+ */
+export function isPrivateParlay(parlay: ParlayData): boolean {
+  return parlay.allowedTaker !== ZeroAddress || parlay.takerAllowlistRoot !== ZeroHash;
+}
+
+/**
+ * Whether an account can see and fill a private parlay without an allowlist proof: the maker, the named
+ * taker or an existing taker. Public parlays are visible to everyone.
+ */
+export function canSeePrivateParlay(parlay: ParlayData, account?: string | null): boolean {
+  if (!isPrivateParlay(parlay)) return true;
+  if (!account) return false;
+  const lower = account.toLowerCase();
+  return parlay.maker.toLowerCase() === lower
+    || parlay.allowedTaker.toLowerCase() === lower
+    || isParlayTaker(parlay, account);
+}
+
+/**
+ * Percentage of the taker side filled so far (0-100)
+ */
+export function getFillPercent(parlay: ParlayData): number {
+  if (parlay.takerStake === BigInt(0)) return 0;
+  return Number((parlay.filledTakerStake * BigInt(10000)) / parlay.takerStake) / 100;
+}
+
+/**
+ * Leg requirement for YES to win, e.g. "3 of 5" for a k-of-n parlay or "5" when every leg must hit
+ */
+export function getLegRequirementString(parlay: ParlayData): string {
+  const legCount = parlay.conditionIds.length;
+  return parlay.minCorrectLegs > 0 && parlay.minCorrectLegs < legCount
+    ? `${parlay.minCorrectLegs} of ${legCount}`
+    : `${legCount}`;
+}
+
+/**
+ * Whether an oracle proposal is final: proposed, undisputed and past its challenge period
+ */
+export function isProposalFinal(proposal: OracleProposal | undefined, now: number = Date.now()): boolean {
+  return !!proposal && proposal.proposed && !proposal.disputed && proposal.disputeDeadline * 1000 <= now;
+}
+
+/**
+ * Whether a filled parlay was never resolved and is past its resolution deadline, so the maker or a position holder can refund it.
+ * Mirrors the status and deadline checks in ParlayMarket.refundStale; see isParlayDecided for the leg check.
+ */
+export function canRefundStale(parlay: ParlayData, now: number = Date.now()): boolean {
+  const isFilled = parlay.status === 1 || (parlay.status === 0 && parlay.filledTakerStake > BigInt(0));
+  return isFilled && parlay.resolutionDeadline * 1000 < now;
+}
+
+/**
+ * Whether a parlay's cancel mode still keeps the maker from cancelling or updating it.
+ * Mirrors the lock check in ParlayMarket.cancelParlay and updateParlay.
+ */
+export function isCancelLocked(parlay: ParlayData, now: number = Date.now()): boolean {
+  return parlay.cancelMode === CancelMode.LockedUntilExpiry && parlay.expiry * 1000 >= now;
+}
+
+/**
+ * Whether the maker can cancel a parlay now: it is open and not locked until expiry
+ */
+export function canCancelParlay(parlay: ParlayData, now: number = Date.now()): boolean {
+  return parlay.status === 0 && !isCancelLocked(parlay, now);
+}
+
+/**
+ * Whether a counter-offer no longer matches the parlay because fills or updateParlay changed the unmatched
+ * maker stake. The maker can't accept it; the taker can refund it right away.
+ */
+export function isCounterLapsed(parlay: ParlayData, counter: ParlayCounter): boolean {
+  return parlay.makerStake - parlay.filledMakerStake !== counter.makerStake;
+}
+
+/**
+ * Whether a counter-offer's taker can take their stake back: the counter is still open and either
+ * COUNTER_TIMEOUT has passed, it lapsed or the parlay no longer takes fills. Mirrors the checks in ParlayMarket.refundCounter.
+ */
+export function canRefundCounter(parlay: ParlayData, counter: ParlayCounter, now: number = Date.now()): boolean {
+  if (counter.status !== CounterStatus.Open) return false;
+  return parlay.status !== 0
+    || parlay.expiry * 1000 < now
+    || (counter.proposedAt + COUNTER_TIMEOUT_SECONDS) * 1000 < now
+    || isCounterLapsed(parlay, counter);
+}
+
+/**
+ * Hash of the terms the maker can change with updateParlay; matches ParlayMarket.getTermsHash.
+ * fillParlay takes the hash of the terms the taker saw, so a fill reverts if the maker changed them first.
+ */
+export function getTermsHash(parlay: ParlayData): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(
+    ['uint256', 'uint256', 'uint256'],
+    [parlay.makerStake, parlay.takerStake, parlay.expiry]
+  ));
+}
+
+/**
+ * Whether final oracle outcomes already rule out a YES win, so the parlay can be settled early for NO.
+ * Mirrors the checks in ParlayMarket.settleEarly.
+ */
+export function canSettleEarly(
+  parlay: ParlayData,
+  proposals: Record<string, OracleProposal>,
+  now: number = Date.now()
+): boolean {
+  let failedCount = 0;
+  for (let i = 0; i < parlay.conditionIds.length; i++) {
+    const proposal = proposals[parlay.conditionIds[i]];
+    if (!isProposalFinal(proposal, now)) continue;
+
+    if (proposal.outcome === 2) {
+      // Under RefundAll a void leg refunds the parlay instead
+      if (parlay.voidPolicy === VoidPolicy.RefundAll) return false;
+    } else if (proposal.outcome !== parlay.requiredOutcomes[i]) {
+      failedCount++;
+    }
+  }
+  return failedCount > parlay.conditionIds.length - parlay.minCorrectLegs;
+}
+
+/**
+ * Whether final oracle outcomes already decide a parlay: every leg is final, or a NO win can be settled early.
+ * ParlayMarket.refundStale refuses decided parlays, so they have to be resolved or settled instead.
+ */
+export function isParlayDecided(
+  parlay: ParlayData,
+  proposals: Record<string, OracleProposal>,
+  now: number = Date.now()
+): boolean {
+  return parlay.conditionIds.every((conditionId) => isProposalFinal(proposals[conditionId], now))
+    || canSettleEarly(parlay, proposals, now);
+}
+
+/**
+ * Why a parlay can no longer be filled even though it is open, or null if it can.
+ * Mirrors the per-leg checks in ParlayMarket.fillParlay.
+ */
+export function getFillBlockReason(
+  parlay: ParlayData,
+  proposals: Record<string, OracleProposal>,
+  now: number = Date.now()
+): string | null {
+  for (let i = 0; i < parlay.conditionIds.length; i++) {
+    const proposal = proposals[parlay.conditionIds[i]];
+    if (isProposalFinal(proposal, now)) {
+      return `Leg ${i + 1} has already resolved`;
+    }
+    // Mirrors ParlayMarket, which also refuses fills while an outcome is in its challenge period
+    if (proposal?.proposed || proposal?.disputed) {
+      return `Leg ${i + 1} has a pending oracle outcome`;
+    }
+    const deadline = parlay.legFillDeadlines[i];
+    if (deadline && deadline * 1000 < now) {
+      return `Leg ${i + 1} closed for fills on ${new Date(deadline * 1000).toLocaleString()}`;
+    }
+  }
+  return null;
+}
+
+export function getCancelModeString(mode: CancelMode): string {
+  const modes = ['Cancellable any time', 'Locked until expiry'];
+  return modes[mode] || 'Cancellable any time';
+}
+
+export function getVoidPolicyString(policy: VoidPolicy): string {
+  const policies = ['Refund everything', 'Drop void legs', 'Drop void legs and reprice'];
+  return policies[policy] || 'Refund everything';
+}
+
 export function getOutcomeString(outcome: number): string {
   const outcomes = ['NO', 'YES', 'INVALID'];
   return outcomes[outcome] || 'UNKNOWN';
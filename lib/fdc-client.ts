@@ -186,7 +186,8 @@ export async function getFDCAttestationData(
 
 /**
  * Submit FDC-verified outcomes to oracle
- * This uses the submitOutcome() function with attestation proof
+ * This uses the submitOutcome() function with attestation proof.
+ * The oracle reads the outcome from the attested payload, so none is sent separately.
  */
 export async function submitFDCVerifiedOutcomes(
   attestationData: FDCAttestationData[],
@@ -195,7 +196,7 @@ export async function submitFDCVerifiedOutcomes(
 ) {
   const oracleAddress = CONTRACT_ADDRESSES[network].FlarePolymarketOracle;
   const oracleABI = [
-    'function submitOutcome(bytes32 conditionId, uint8 outcome, bytes calldata attestationData, bytes32[] calldata merkleProof) external',
+    'function submitOutcome(bytes32 conditionId, bytes calldata attestationData, bytes32[] calldata merkleProof) external',
     'function getOutcome(bytes32 conditionId) external view returns (bool resolved, uint8 outcome)',
   ];
 
@@ -214,7 +215,6 @@ export async function submitFDCVerifiedOutcomes(
 
       const tx = await oracle.submitOutcome(
         conditionIdBytes32,
-        data.outcome,
         data.attestationData,
         data.merkleProof
       );
@@ -247,36 +247,45 @@ export async function submitFDCVerifiedOutcomes(
  * @param conditionIds Array of condition IDs to check
  * @param provider Ethers provider
  * @param network Network to use
- * @returns Map of condition ID to resolution status
+ * @returns Map of condition ID to resolution status. `resolved` is only true once the
+ * challenge period has passed; `proposed` is true as soon as an outcome has been submitted.
  */
 export async function checkOracleResolutions(
   conditionIds: string[],
   provider: ethers.Provider,
   network: 'coston2' | 'flare' = 'coston2'
-): Promise<Map<string, { resolved: boolean; outcome: number }>> {
+): Promise<Map<string, { resolved: boolean; outcome: number; proposed: boolean; disputeDeadline: number }>> {
   const oracleAddress = CONTRACT_ADDRESSES[network].FlarePolymarketOracle;
   const oracleABI = [
     'function getOutcome(bytes32 conditionId) external view returns (bool resolved, uint8 outcome)',
+    'function getProposal(bytes32 conditionId) external view returns (bool proposed, uint8 outcome, uint256 disputeDeadline, bool disputed, address disputer)',
   ];
 
   const oracle = new ethers.Contract(oracleAddress, oracleABI, provider);
   
-  const results = new Map<string, { resolved: boolean; outcome: number }>();
+  const results = new Map<string, { resolved: boolean; outcome: number; proposed: boolean; disputeDeadline: number }>();
   
   await Promise.all(
     conditionIds.map(async (conditionId) => {
       try {
         // ConditionId is already a hex string, just ensure it's properly padded to bytes32
         const conditionIdBytes32 = ethers.zeroPadValue(conditionId, 32);
-        const [resolved, outcome] = await oracle.getOutcome(conditionIdBytes32);
-        results.set(conditionId, { resolved, outcome: Number(outcome) });
+        const [[resolved, outcome], proposal] = await Promise.all([
+          oracle.getOutcome(conditionIdBytes32),
+          oracle.getProposal(conditionIdBytes32),
+        ]);
+        results.set(conditionId, {
+          resolved,
+          outcome: Number(outcome),
+          proposed: proposal.proposed,
+          disputeDeadline: Number(proposal.disputeDeadline),
+        });
       } catch (error) {
         console.error(`Error checking resolution for ${conditionId}:`, error);
-        results.set(conditionId, { resolved: false, outcome: 2 });
+        results.set(conditionId, { resolved: false, outcome: 2, proposed: false, disputeDeadline: 0 });
       }
     })
   );
 
   return results;
 }
-
@@ -0,0 +1,53 @@
+/**
+ * Client for the signed order relay (/api/orders)
+ */
+
+import { ChainName, ParlayOrder, SignedParlayOrder } from './contracts';
+
+/**
+ * Submit a signed order to the relay so takers can find it
+ * @returns The EIP-712 order hash
+ */
+export async function submitSignedOrder(
+  order: ParlayOrder,
+  signature: string,
+  network: ChainName = 'coston2'
+): Promise<string> {
+  const response = await fetch('/api/orders', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order, signature, network }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(`Order relay rejected the order: ${error.error || response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.orderHash;
+}
+
+/**
+ * Fetch open signed orders from the relay
+ * @param network The chain name
+ * @param maker Only return orders from this maker
+ */
+export async function fetchSignedOrders(
+  network: ChainName = 'coston2',
+  maker?: string
+): Promise<SignedParlayOrder[]> {
+  const params = new URLSearchParams({ network });
+  if (maker) {
+    params.append('maker', maker);
+  }
+
+  const response = await fetch(`/api/orders?${params.toString()}`);
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(`Failed to fetch signed orders: ${error.error || response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.orders || [];
+}
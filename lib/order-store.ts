@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SignedParlayOrder } from './contracts';
+
+/**
+ * File-backed storage for the signed order relay (server side only).
+ * Orders are kept in a single JSON file keyed by EIP-712 order hash.
+ * Updates are serialized within the process; run a single relay instance per store file.
+ */
+
+const STORE_PATH = process.env.ORDER_STORE_PATH || path.join(process.cwd(), '.data', 'orders.json');
+
+export async function readOrders(): Promise<SignedParlayOrder[]> {
+  try {
+    const raw = await fs.readFile(STORE_PATH, 'utf8');
+    return JSON.parse(raw);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Replace the store by writing a temp file and renaming it over the old one, so readers never see a partial file
+ */
+async function writeOrders(orders: SignedParlayOrder[]): Promise<void> {
+  await fs.mkdir(path.dirname(STORE_PATH), { recursive: true });
+  const tempPath = `${STORE_PATH}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(orders, null, 2));
+  await fs.rename(tempPath, STORE_PATH);
+}
+
+// Tail of the queue of read-modify-write updates; each waits for the previous one so concurrent requests can't drop each other's changes
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+function withStoreLock<T>(update: () => Promise<T>): Promise<T> {
+  const result = pendingUpdate.then(update, update);
+  pendingUpdate = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Add an order; returns false if an order with the same hash is already stored
+ */
+export async function addOrder(order: SignedParlayOrder): Promise<boolean> {
+  return withStoreLock(async () => {
+    const orders = await readOrders();
+    if (orders.some((existing) => existing.orderHash === order.orderHash)) {
+      return false;
+    }
+    await writeOrders([...orders, order]);
+    return true;
+  });
+}
+
+/**
+ * Remove orders by hash (filled, cancelled or expired)
+ */
+export async function removeOrders(orderHashes: string[]): Promise<void> {
+  if (orderHashes.length === 0) return;
+  const remove = new Set(orderHashes);
+  await withStoreLock(async () => {
+    const orders = await readOrders();
+    await writeOrders(orders.filter((order) => !remove.has(order.orderHash)));
+  });
+}
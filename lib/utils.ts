@@ -2,6 +2,9 @@
  * Utility functions for ParlayMarket
  */
 
+import { Interface } from 'ethers';
+import { ABIS } from './contracts';
+
 /**
  * Format a wallet address to show only first and last characters
  */
@@ -17,6 +20,14 @@ export function formatDate(timestamp: number): string {
   return new Date(timestamp * 1000).toLocaleString();
 }
 
+/**
+ * Format a Unix timestamp for a datetime-local input, in the browser's time zone
+ */
+export function toDateTimeLocal(timestamp: number): string {
+  const date = new Date(timestamp * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+}
+
 /**
  * Format a relative time (e.g., "2 hours ago", "in 3 days")
  */
@@ -41,6 +52,32 @@ export function formatRelativeTime(timestamp: number): string {
   return `${prefix}${seconds} second${seconds > 1 ? 's' : ''}${suffix}`;
 }
 
+/**
+ * Format a countdown to a timestamp (e.g., "1h 05m 09s")
+ */
+export function formatCountdown(timestamp: number, now: number = Date.now()): string {
+  const remaining = Math.max(0, Math.floor((timestamp * 1000 - now) / 1000));
+  const hours = Math.floor(remaining / 3600);
+  const minutes = Math.floor((remaining % 3600) / 60);
+  const seconds = remaining % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  
+  if (hours > 0) return `${hours}h ${pad(minutes)}m ${pad(seconds)}s`;
+  return `${minutes}m ${pad(seconds)}s`;
+}
+
+/**
+ * Number of k-sized combinations of n items (parlays spawned by a round robin)
+ */
+export function countCombinations(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 0; i < k; i++) {
+    result = (result * (n - i)) / (i + 1);
+  }
+  return Math.round(result);
+}
+
 /**
  * Check if a timestamp has expired
  */
@@ -74,6 +111,13 @@ export function calculateProfit(stake: bigint, totalPot: bigint): bigint {
   return totalPot - stake;
 }
 
+/**
+ * Calculate the protocol fee taken from a parlay's pot on resolution
+ */
+export function calculateProtocolFee(totalPot: bigint, feeBps: number): bigint {
+  return (totalPot * BigInt(feeBps)) / BigInt(10000);
+}
+
 /**
  * Calculate implied probability from odds
  */
@@ -117,12 +161,52 @@ export function openInExplorer(addressOrTx: string, chain: 'coston2' | 'flare' =
   window.open(`${baseUrl}/${path}/${addressOrTx}`, '_blank');
 }
 
+// Custom errors of every contract in ABIS, for decoding reverts raised by any of them
+const contractErrors = new Interface(
+  Object.values(ABIS).flat().filter((fragment) => fragment.startsWith('error '))
+);
+
+/**
+ * Turn a custom error name into a sentence, e.g. ParlayExpired -> "Parlay expired"
+ */
+function describeCustomError(name: string): string {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Find the raw revert data on an ethers error or a wallet error wrapped inside it
+ */
+function findRevertData(error: any): string | null {
+  for (const data of [error?.data, error?.info?.error?.data, error?.error?.data]) {
+    if (typeof data === 'string' && data.startsWith('0x') && data.length >= 10) return data;
+    if (typeof data?.data === 'string' && data.data.startsWith('0x')) return data.data;
+  }
+  return null;
+}
+
 /**
  * Parse error message from contract revert
+ * @dev Custom errors of every contract in contracts/abis.json are decoded, so users see
+ *      "Parlay expired" instead of a raw selector
  */
-export function parseContractError(error: any): string {
+export function parseContractError(error: any, fallback: string = 'Transaction failed'): string {
   if (typeof error === 'string') return error;
   
+  if (error?.revert?.name && error.revert.name !== 'Error') return describeCustomError(error.revert.name);
+  
+  const data = findRevertData(error);
+  if (data) {
+    try {
+      const decoded = contractErrors.parseError(data);
+      if (decoded) {
+        return decoded.name === 'Error' ? String(decoded.args[0]) : describeCustomError(decoded.name);
+      }
+    } catch {
+      // Not one of ours; fall through to the message
+    }
+  }
+  
   if (error?.reason) return error.reason;
   if (error?.message) {
     // Extract revert reason if present
@@ -131,6 +215,6 @@ export function parseContractError(error: any): string {
     return error.message;
   }
   
-  return 'Transaction failed';
+  return fallback;
 }
 
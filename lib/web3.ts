@@ -1,10 +1,22 @@
 'use client';
 
-import { BrowserProvider, Contract, formatEther, parseEther, EventLog } from 'ethers';
-import { CONTRACT_ADDRESSES, ABIS, ChainName } from './contracts';
+import { BrowserProvider, Contract, formatEther, parseEther, formatUnits, parseUnits, getAddress, isAddress, EventLog } from 'ethers';
+import {
+  CONTRACT_ADDRESSES,
+  ABIS,
+  ChainName,
+  CollateralToken,
+  NATIVE_COLLATERAL,
+  ParlayOrder,
+  PARLAY_ORDER_TYPES,
+  PARLAY_TOKEN_PERMIT_TYPES,
+  getParlayOrderDomain,
+  getParlayTokenPermitDomain,
+} from './contracts';
 
 let provider: BrowserProvider | null = null;
 let currentAccount: string | null = null;
+const collateralTokenCache = new Map<string, CollateralToken>();
 
 export function isMetaMaskInstalled(): boolean {
   return typeof window !== 'undefined' && !!window.ethereum;
@@ -107,6 +119,228 @@ export async function getParlayTokenContract(chain: ChainName = 'coston2'): Prom
   return new Contract(tokenAddress, ABIS.ParlayToken, signer);
 }
 
+export async function getParlayTokenMarketplaceContract(chain: ChainName = 'coston2'): Promise<Contract> {
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+  const address = CONTRACT_ADDRESSES[chain].ParlayTokenMarketplace;
+  return new Contract(address, ABIS.ParlayTokenMarketplace, signer);
+}
+
+export async function getOracleContract(chain: ChainName = 'coston2'): Promise<Contract> {
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+  const address = CONTRACT_ADDRESSES[chain].FlarePolymarketOracle;
+  return new Contract(address, ABIS.FlarePolymarketOracle, signer);
+}
+
+export async function getERC20Contract(tokenAddress: string): Promise<Contract> {
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+  return new Contract(tokenAddress, ABIS.ERC20, signer);
+}
+
+/**
+ * Get symbol and decimals for a parlay collateral token
+ * @param tokenAddress The ERC-20 address, or NATIVE_COLLATERAL for FLR
+ */
+export async function getCollateralTokenInfo(tokenAddress: string): Promise<CollateralToken> {
+  if (!tokenAddress || tokenAddress === NATIVE_COLLATERAL) {
+    return { address: NATIVE_COLLATERAL, symbol: 'FLR', decimals: 18 };
+  }
+
+  const cached = collateralTokenCache.get(tokenAddress.toLowerCase());
+  if (cached) return cached;
+
+  const token = await getERC20Contract(tokenAddress);
+  const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+  const info = { address: tokenAddress, symbol, decimals: Number(decimals) };
+  collateralTokenCache.set(tokenAddress.toLowerCase(), info);
+  return info;
+}
+
+/**
+ * Approve the ParlayMarket to pull an ERC-20 stake if the current allowance is too low
+ * @param tokenAddress The collateral token address (no-op for native FLR)
+ * @param amount The stake amount in token base units
+ * @param chain The chain name
+ */
+export async function ensureCollateralAllowance(
+  tokenAddress: string,
+  amount: bigint,
+  chain: ChainName = 'coston2'
+): Promise<void> {
+  if (tokenAddress === NATIVE_COLLATERAL) return;
+
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+  const owner = await signer.getAddress();
+  const spender = CONTRACT_ADDRESSES[chain].ParlayMarket;
+
+  const token = await getERC20Contract(tokenAddress);
+  const allowance: bigint = await token.allowance(owner, spender);
+  if (allowance >= amount) return;
+
+  const tx = await token.approve(spender, amount);
+  await tx.wait();
+}
+
+/**
+ * Raise the ParlayMarket's ERC-20 allowance by an amount on top of what it already has
+ * @param tokenAddress The collateral token address (no-op for native FLR)
+ * @param amount The stake amount in token base units
+ * @param chain The chain name
+ * @dev Signed orders only pull the maker stake when they are filled, so the allowance already granted may be
+ *      spoken for by the maker's other open orders and has to be added to rather than replaced
+ */
+export async function increaseCollateralAllowance(
+  tokenAddress: string,
+  amount: bigint,
+  chain: ChainName = 'coston2'
+): Promise<void> {
+  if (tokenAddress === NATIVE_COLLATERAL) return;
+
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+  const owner = await signer.getAddress();
+  const spender = CONTRACT_ADDRESSES[chain].ParlayMarket;
+
+  const token = await getERC20Contract(tokenAddress);
+  const allowance: bigint = await token.allowance(owner, spender);
+
+  const tx = await token.approve(spender, allowance + amount);
+  await tx.wait();
+}
+
+/**
+ * Whether the ParlayTokenMarketplace may already move a position token for the connected account
+ * @param tokenId The ParlayToken to list
+ * @param chain The chain name
+ */
+export async function isPositionApproved(tokenId: string, chain: ChainName = 'coston2'): Promise<boolean> {
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+  const owner = await signer.getAddress();
+  const marketplace = CONTRACT_ADDRESSES[chain].ParlayTokenMarketplace;
+
+  const token = await getParlayTokenContract(chain);
+  const [approved, approvedForAll] = await Promise.all([
+    token.getApproved(tokenId),
+    token.isApprovedForAll(owner, marketplace),
+  ]);
+  return approvedForAll || approved.toLowerCase() === marketplace.toLowerCase();
+}
+
+/**
+ * Turn a recipient typed by the user into a checksummed address
+ * @param input A 0x address, or an ENS-style name on networks with a name registry
+ * @throws If the input is not an address and the name can't be resolved
+ */
+export async function resolveRecipient(input: string): Promise<string> {
+  const value = input.trim();
+  const isName = value.includes('.');
+  if (isAddress(value)) return getAddress(value);
+  if (!isName) throw new Error('Enter a valid 0x address or name');
+
+  let resolved: string | null = null;
+  try {
+    const provider = await getProvider();
+    resolved = await provider.resolveName(value);
+  } catch (error) {
+    // Networks without a name registry (such as Flare) reject lookups outright
+    console.warn(`Could not resolve ${value}:`, error);
+    throw new Error('Name lookup is not available on this network. Enter a 0x address instead');
+  }
+  if (!resolved) throw new Error(`${value} does not resolve to an address`);
+  return resolved;
+}
+
+/**
+ * Check whether a recipient can take a position token through safeTransferFrom
+ * @returns isContract, and whether the transfer would succeed (false for contracts without onERC721Received)
+ * @throws If the simulated transfer fails for any reason other than the recipient rejecting it,
+ *         e.g. the connected account no longer holds the token
+ */
+export async function checkPositionRecipient(
+  tokenId: string,
+  recipient: string,
+  chain: ChainName = 'coston2'
+): Promise<{ isContract: boolean; canReceive: boolean }> {
+  const provider = await getProvider();
+  const code = await provider.getCode(recipient);
+  if (code === '0x') return { isContract: false, canReceive: true };
+
+  // Simulate the transfer so the token's own onERC721Received check decides
+  const signer = await provider.getSigner();
+  const token = await getParlayTokenContract(chain);
+  try {
+    await token['safeTransferFrom(address,address,uint256)'].staticCall(await signer.getAddress(), recipient, tokenId);
+    return { isContract: true, canReceive: true };
+  } catch (error: any) {
+    // The token reports a recipient without onERC721Received as TransferToNonERC721Receiver and passes on
+    // the recipient's own revert; its other custom errors and non-revert failures are not about the recipient
+    const revertName: string | undefined = error?.revert?.name;
+    const hasRevertData = typeof error?.data === 'string' && error.data.length >= 10;
+    const rejectedByRecipient = revertName === 'TransferToNonERC721Receiver'
+      || (error?.code === 'CALL_EXCEPTION' && hasRevertData && (!revertName || revertName === 'Error' || revertName === 'Panic'));
+    if (rejectedByRecipient) return { isContract: true, canReceive: false };
+    throw error;
+  }
+}
+
+/**
+ * Sign an EIP-4494 permit approving a spender for a position token; no transaction is sent
+ * @param spender Address to approve
+ * @param tokenId The ParlayToken to approve (the connected account must own it or be an operator for its owner)
+ * @param deadline Unix seconds after which the permit can no longer be submitted
+ * @param chain The chain name
+ */
+export async function signParlayTokenPermit(
+  spender: string,
+  tokenId: string,
+  deadline: number,
+  chain: ChainName = 'coston2'
+): Promise<string> {
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+  const token = await getParlayTokenContract(chain);
+
+  // The nonce moves on every permit and transfer, so sign against the current one
+  const nonce: bigint = await token.nonces(tokenId);
+  const domain = { ...getParlayTokenPermitDomain(chain), verifyingContract: await token.getAddress() };
+  return signer.signTypedData(domain, PARLAY_TOKEN_PERMIT_TYPES, { spender, tokenId, nonce, deadline });
+}
+
+/**
+ * Submit a signed permit so the spender is approved on-chain; any account can send it
+ * @param spender Address the permit approves
+ * @param tokenId The ParlayToken the permit covers
+ * @param deadline Deadline the permit was signed with
+ * @param signature Signature from signParlayTokenPermit
+ * @param chain The chain name
+ */
+export async function submitParlayTokenPermit(
+  spender: string,
+  tokenId: string,
+  deadline: number,
+  signature: string,
+  chain: ChainName = 'coston2'
+): Promise<void> {
+  const token = await getParlayTokenContract(chain);
+  const tx = await token.permit(spender, tokenId, deadline, signature);
+  await tx.wait();
+}
+
+/**
+ * Sign a parlay order off-chain with EIP-712; no transaction is sent
+ * @param order The order terms (order.maker must be the connected account)
+ * @param chain The chain name
+ */
+export async function signParlayOrder(order: ParlayOrder, chain: ChainName = 'coston2'): Promise<string> {
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+  return signer.signTypedData(getParlayOrderDomain(chain), PARLAY_ORDER_TYPES, order);
+}
+
 /**
  * Prompt Metamask to import an NFT
  * @param tokenAddress The NFT contract address
@@ -152,20 +386,20 @@ export async function getParlayTokenIds(
   try {
     const contract = await getParlayMarketContract(chain);
     
-    // Use the public 'parlays' mapping which returns the full struct including token IDs
+    // getParlay includes the token IDs
     // This is a direct storage read - no block searching needed!
-    const parlayData = await contract.parlays(parlayId);
+    const parlayData = await contract.getParlay(parlayId);
     
-    // The mapping returns: (id, maker, taker, name, conditionIds, requiredOutcomes, 
-    // legNames, imageUrls, makerStake, takerStake, expiry, status, makerIsYes, yesTokenId, noTokenId)
+    // getParlay returns: (maker, taker, name, conditionIds, requiredOutcomes, legNames, imageUrls,
+    // makerStake, takerStake, expiry, status, makerIsYes, yesTokenId, noTokenId, ...)
     // Handle both object and array return formats from ethers
     let yesTokenId: string | null = null;
     let noTokenId: string | null = null;
     
     if (Array.isArray(parlayData)) {
-      // If returned as array, token IDs are at indices 13 and 14
-      yesTokenId = parlayData[13]?.toString() || null;
-      noTokenId = parlayData[14]?.toString() || null;
+      // If returned as array, token IDs are at indices 12 and 13
+      yesTokenId = parlayData[12]?.toString() || null;
+      noTokenId = parlayData[13]?.toString() || null;
     } else if (parlayData && typeof parlayData === 'object') {
       // If returned as object with named properties
       yesTokenId = parlayData.yesTokenId?.toString() || null;
@@ -228,7 +462,7 @@ export async function getTokenIdsFromReceipt(
 }
 
 // Utility functions
-export { formatEther, parseEther };
+export { formatEther, parseEther, formatUnits, parseUnits };
 
 // Type declarations for window.ethereum
 declare global {
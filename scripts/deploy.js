@@ -31,18 +31,38 @@ async function main() {
   const oracleAddress = await flareOracle.getAddress();
   console.log("FlarePolymarketOracle deployed to:", oracleAddress);
 
+  // Deploy the stateless renderer ParlayToken uses for on-chain metadata and artwork
+  console.log("\nDeploying ParlayTokenRenderer...");
+  const ParlayTokenRenderer = await hre.ethers.getContractFactory("ParlayTokenRenderer");
+  const parlayTokenRenderer = await ParlayTokenRenderer.deploy();
+  await parlayTokenRenderer.waitForDeployment();
+  const rendererAddress = await parlayTokenRenderer.getAddress();
+  console.log("ParlayTokenRenderer deployed to:", rendererAddress);
+
   // Deploy ParlayMarket (ParlayToken will be deployed automatically)
   console.log("\nDeploying ParlayMarket...");
   const ParlayMarket = await hre.ethers.getContractFactory("ParlayMarket");
-  const parlayMarket = await ParlayMarket.deploy(oracleAddress);
+  const parlayMarket = await ParlayMarket.deploy(oracleAddress, rendererAddress);
   await parlayMarket.waitForDeployment();
   const parlayMarketAddress = await parlayMarket.getAddress();
   console.log("ParlayMarket deployed to:", parlayMarketAddress);
 
+  // Let the oracle refuse overrides for conditions that parlays have settled against
+  console.log("Linking FlarePolymarketOracle to ParlayMarket...");
+  await (await flareOracle.setParlayMarket(parlayMarketAddress)).wait();
+
   // Get ParlayToken address (deployed by ParlayMarket constructor)
   const parlayTokenAddress = await parlayMarket.parlayToken();
   console.log("ParlayToken deployed to:", parlayTokenAddress);
 
+  // Deploy the secondary market for position tokens
+  console.log("\nDeploying ParlayTokenMarketplace...");
+  const ParlayTokenMarketplace = await hre.ethers.getContractFactory("ParlayTokenMarketplace");
+  const parlayTokenMarketplace = await ParlayTokenMarketplace.deploy(parlayTokenAddress);
+  await parlayTokenMarketplace.waitForDeployment();
+  const marketplaceAddress = await parlayTokenMarketplace.getAddress();
+  console.log("ParlayTokenMarketplace deployed to:", marketplaceAddress);
+
   // Save deployment info
   const deploymentInfo = {
     network: network.name,
@@ -53,6 +73,8 @@ async function main() {
       flarePolymarketOracle: oracleAddress,
       parlayMarket: parlayMarketAddress,
       parlayToken: parlayTokenAddress,
+      parlayTokenRenderer: rendererAddress,
+      parlayTokenMarketplace: marketplaceAddress,
     },
   };
 
@@ -70,6 +92,8 @@ async function main() {
   console.log("FlarePolymarketOracle:", oracleAddress);
   console.log("ParlayMarket:", parlayMarketAddress);
   console.log("ParlayToken:", parlayTokenAddress);
+  console.log("ParlayTokenRenderer:", rendererAddress);
+  console.log("ParlayTokenMarketplace:", marketplaceAddress);
   console.log("\nDeployment info saved to:", deploymentFile);
   console.log("=".repeat(60));
 
@@ -77,8 +101,10 @@ async function main() {
   if (network.chainId !== 31337n) {
     console.log("\nTo verify contracts on block explorer:");
     console.log(`  npx hardhat verify --network ${network.name} ${oracleAddress} "${fdcAddress}"`);
-    console.log(`  npx hardhat verify --network ${network.name} ${parlayMarketAddress} "${oracleAddress}"`);
-    console.log(`  npx hardhat verify --network ${network.name} ${parlayTokenAddress} "${parlayMarketAddress}"`);
+    console.log(`  npx hardhat verify --network ${network.name} ${rendererAddress}`);
+    console.log(`  npx hardhat verify --network ${network.name} ${parlayMarketAddress} "${oracleAddress}" "${rendererAddress}"`);
+    console.log(`  npx hardhat verify --network ${network.name} ${parlayTokenAddress} "${parlayMarketAddress}" "${rendererAddress}"`);
+    console.log(`  npx hardhat verify --network ${network.name} ${marketplaceAddress} "${parlayTokenAddress}"`);
   }
 }
 
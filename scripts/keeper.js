@@ -0,0 +1,153 @@
+const hre = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+
+/**
+ * Keeper for ParlayMarket
+ * Watches ParlayFilled events, checks FlarePolymarketOracle.getOutcome for every leg of each
+ * filled parlay, and calls resolveParlay once all legs are resolved, collecting any resolver bounty.
+ *
+ * Usage (against a local Hardhat node started with `npx hardhat node`):
+ *   npx hardhat run scripts/keeper.js --network localhost
+ *
+ * Environment:
+ *   PARLAY_MARKET_ADDRESS   - ParlayMarket to watch (default: read from deployments/)
+ *   KEEPER_POLL_INTERVAL_MS - How often watched parlays are checked (default: 15000)
+ */
+const POLL_INTERVAL_MS = Number(process.env.KEEPER_POLL_INTERVAL_MS || 15000);
+
+// ParlayStatus values from ParlayMarket.sol
+const STATUS_CREATED = 0n;
+const STATUS_FILLED = 1n;
+
+// Collateral symbol and decimals by token address, for printing bounties
+const collateralInfo = new Map();
+
+async function getCollateralInfo(tokenAddress) {
+  if (tokenAddress === hre.ethers.ZeroAddress) {
+    return { symbol: "FLR", decimals: 18 };
+  }
+  if (!collateralInfo.has(tokenAddress)) {
+    const token = new hre.ethers.Contract(
+      tokenAddress,
+      ["function symbol() view returns (string)", "function decimals() view returns (uint8)"],
+      hre.ethers.provider
+    );
+    try {
+      const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+      collateralInfo.set(tokenAddress, { symbol, decimals: Number(decimals) });
+    } catch {
+      // Without metadata, print the raw amount in base units of the token
+      collateralInfo.set(tokenAddress, { symbol: `base units of ${tokenAddress}`, decimals: 0 });
+    }
+  }
+  return collateralInfo.get(tokenAddress);
+}
+
+function loadMarketAddress(chainId) {
+  if (process.env.PARLAY_MARKET_ADDRESS) {
+    return process.env.PARLAY_MARKET_ADDRESS;
+  }
+
+  // deploy.js saves deployments/{network}-{chainId}.json
+  const deploymentsDir = path.join(__dirname, "..", "deployments");
+  const file = fs.existsSync(deploymentsDir)
+    ? fs.readdirSync(deploymentsDir).find((name) => name.endsWith(`-${chainId}.json`))
+    : undefined;
+  if (!file) {
+    throw new Error(`No deployment found for chain ${chainId}. Run deploy.js first or set PARLAY_MARKET_ADDRESS.`);
+  }
+
+  const deploymentInfo = JSON.parse(fs.readFileSync(path.join(deploymentsDir, file), "utf8"));
+  return deploymentInfo.contracts.parlayMarket;
+}
+
+/**
+ * Check whether a parlay can be resolved now
+ * Returns "ready" when every leg is resolved, "pending" while legs are open,
+ * and "closed" once the parlay no longer needs resolving.
+ */
+async function checkParlay(market, oracle, parlayId) {
+  const parlay = await market.getParlay(parlayId);
+  const isFilled = parlay.status === STATUS_FILLED ||
+    (parlay.status === STATUS_CREATED && parlay.filledTakerStake > 0n);
+  if (!isFilled) {
+    return parlay.status === STATUS_CREATED ? "pending" : "closed";
+  }
+
+  for (const conditionId of parlay.conditionIds) {
+    const [resolved] = await oracle.getOutcome(conditionId);
+    if (!resolved) return "pending";
+  }
+  return "ready";
+}
+
+async function resolveParlay(market, parlayId) {
+  // Simulate first so a parlay someone else just resolved doesn't cost gas
+  try {
+    await market.resolveParlay.staticCall(parlayId);
+  } catch (error) {
+    console.log(`Parlay #${parlayId} not resolvable yet:`, error.shortMessage || error.message);
+    return false;
+  }
+
+  // The bounty is escrowed in the parlay's collateral, which may be an ERC-20 with its own decimals
+  const [bounty, parlay] = await Promise.all([market.getResolverBounty(parlayId), market.getParlay(parlayId)]);
+  const tx = await market.resolveParlay(parlayId);
+  await tx.wait();
+  const { symbol, decimals } = await getCollateralInfo(parlay.collateralToken);
+  console.log(`Resolved parlay #${parlayId} in ${tx.hash} (bounty: ${hre.ethers.formatUnits(bounty, decimals)} ${symbol})`);
+  return true;
+}
+
+async function main() {
+  const [keeper] = await hre.ethers.getSigners();
+  const network = await hre.ethers.provider.getNetwork();
+
+  const marketAddress = loadMarketAddress(network.chainId);
+  const market = await hre.ethers.getContractAt("ParlayMarket", marketAddress, keeper);
+  const oracle = await hre.ethers.getContractAt("FlarePolymarketOracle", await market.oracle(), keeper);
+
+  console.log("=".repeat(60));
+  console.log("Keeper account:", keeper.address);
+  console.log("ParlayMarket:", marketAddress);
+  console.log("Oracle:", await oracle.getAddress());
+  console.log("Chain ID:", network.chainId);
+  console.log("=".repeat(60));
+
+  // Parlays with at least one fill that haven't been settled yet
+  const watched = new Set();
+
+  const pastFills = await market.queryFilter(market.filters.ParlayFilled());
+  for (const event of pastFills) {
+    watched.add(event.args.parlayId);
+  }
+  console.log(`Found ${watched.size} filled parlay(s) in past events`);
+
+  await market.on(market.filters.ParlayFilled(), (parlayId) => {
+    if (!watched.has(parlayId)) {
+      console.log(`Watching parlay #${parlayId}`);
+    }
+    watched.add(parlayId);
+  });
+
+  // Check sequentially so a slow round never overlaps the next one
+  while (true) {
+    for (const parlayId of Array.from(watched)) {
+      try {
+        const state = await checkParlay(market, oracle, parlayId);
+        if (state === "closed" || (state === "ready" && (await resolveParlay(market, parlayId)))) {
+          watched.delete(parlayId);
+        }
+      } catch (error) {
+        console.error(`Error checking parlay #${parlayId}:`, error.shortMessage || error.message);
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, impersonateAccount, setBalance } from "@nomicfoundation/hardhat-network-helpers";
+
+const CONDITION = ethers.id("condition-1");
+
+// Outcomes as stored by the oracle
+const NO = 0;
+const YES = 1;
+
+describe("FlarePolymarketOracle", function () {
+  async function disputedFixture() {
+    const [owner, disputer, other] = await ethers.getSigners();
+
+    // FDC verification is never called by setOutcomeDirect, so any non-zero address will do
+    const oracle = await ethers.deployContract("FlarePolymarketOracle", [owner.address]);
+    const bond = await oracle.disputeBond();
+
+    await oracle.setOutcomeDirect(CONDITION, YES);
+    await oracle.connect(disputer).dispute(CONDITION, { value: bond });
+
+    return { oracle, owner, disputer, other, bond };
+  }
+
+  describe("dispute bonds", function () {
+    it("credits the bond to a disputer who wins and lets them withdraw it", async function () {
+      const { oracle, disputer, bond } = await loadFixture(disputedFixture);
+
+      await oracle.settleDispute(CONDITION, NO);
+      expect(await oracle.pendingBondWithdrawals(disputer.address)).to.equal(bond);
+
+      const withdrawal = oracle.connect(disputer).withdrawBond();
+      await expect(withdrawal).to.emit(oracle, "BondWithdrawn").withArgs(disputer.address, bond);
+      await expect(withdrawal).to.changeEtherBalances([oracle, disputer], [-bond, bond]);
+      expect(await oracle.pendingBondWithdrawals(disputer.address)).to.equal(0);
+    });
+
+    it("credits a forfeited bond to the owner", async function () {
+      const { oracle, owner, disputer, bond } = await loadFixture(disputedFixture);
+
+      await oracle.settleDispute(CONDITION, YES);
+
+      expect(await oracle.pendingBondWithdrawals(owner.address)).to.equal(bond);
+      expect(await oracle.pendingBondWithdrawals(disputer.address)).to.equal(0);
+    });
+
+    it("settles even when the bond recipient cannot receive FLR", async function () {
+      const { oracle, bond } = await loadFixture(disputedFixture);
+
+      // Hand ownership to a contract without a receive function, which would make a pushed bond revert
+      const rejecter = await ethers.deployContract("MockPolymarketOracle");
+      const rejecterAddress = await rejecter.getAddress();
+      await oracle.transferOwnership(rejecterAddress);
+      await impersonateAccount(rejecterAddress);
+      await setBalance(rejecterAddress, ethers.parseEther("1"));
+      const contractOwner = await ethers.getSigner(rejecterAddress);
+      await oracle.connect(contractOwner).acceptOwnership();
+
+      await expect(oracle.connect(contractOwner).settleDispute(CONDITION, YES)).to.emit(oracle, "DisputeSettled");
+      expect(await oracle.pendingBondWithdrawals(rejecterAddress)).to.equal(bond);
+    });
+
+    it("rejects withdrawals with nothing credited", async function () {
+      const { oracle, other } = await loadFixture(disputedFixture);
+
+      await expect(oracle.connect(other).withdrawBond()).to.be.revertedWithCustomError(oracle, "NothingToWithdraw");
+    });
+  });
+});
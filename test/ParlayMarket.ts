@@ -0,0 +1,592 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { PARLAY_ORDER_TYPES } from "../lib/contracts";
+
+const STAKE = ethers.parseEther("1");
+const LEG = ethers.id("leg-1");
+const LEG_2 = ethers.id("leg-2");
+const LEG_3 = ethers.id("leg-3");
+
+// Outcomes as stored by the oracle
+const NO = 0;
+const YES = 1;
+const INVALID = 2;
+
+describe("ParlayMarket", function () {
+  async function deployMarket(oracleAddress: string) {
+    const renderer = await ethers.deployContract("ParlayTokenRenderer");
+    const market = await ethers.deployContract("ParlayMarket", [oracleAddress, await renderer.getAddress()]);
+    const token = await ethers.getContractAt("ParlayToken", await market.parlayToken());
+    return { market, token };
+  }
+
+  interface ParlayOptions {
+    legs?: string[]; // Condition IDs, each required to resolve YES
+    makerStake?: bigint;
+    takerStake?: bigint;
+    minCorrectLegs?: number; // Defaults to every leg
+    voidPolicy?: number;
+    legProbabilitiesBps?: number[];
+    allowedTaker?: string;
+  }
+
+  // Native FLR parlay with the maker on YES; by default one leg, even stakes and refunded in full if a leg is INVALID
+  async function createParlay(
+    market: Awaited<ReturnType<typeof deployMarket>>["market"],
+    maker: HardhatEthersSigner,
+    options: ParlayOptions = {}
+  ) {
+    const legs = options.legs ?? [LEG];
+    const makerStake = options.makerStake ?? STAKE;
+    const expiry = (await time.latest()) + 86400;
+    const resolutionDeadline = expiry + 86400;
+    const parlayId = Number(await market.getTotalParlays());
+    await market.connect(maker).createParlay(
+      "Test parlay",
+      legs,
+      legs.map(() => YES),
+      legs.map((_, i) => `Leg ${i + 1}`),
+      legs.map(() => ""),
+      ethers.ZeroAddress,
+      makerStake,
+      options.takerStake ?? STAKE,
+      expiry,
+      resolutionDeadline,
+      0,
+      true,
+      options.minCorrectLegs ?? legs.length,
+      options.voidPolicy ?? 0, // VoidPolicy.RefundAll
+      options.legProbabilitiesBps ?? [],
+      [],
+      options.allowedTaker ?? ethers.ZeroAddress,
+      ethers.ZeroHash,
+      0, // CancelMode.Anytime
+      { value: makerStake }
+    );
+    return { parlayId, expiry, resolutionDeadline };
+  }
+
+  async function marketFixture() {
+    const [maker, taker, other, feeRecipient] = await ethers.getSigners();
+
+    const oracle = await ethers.deployContract("MockPolymarketOracle");
+    const { market, token } = await deployMarket(await oracle.getAddress());
+
+    return { market, token, oracle, maker, taker, other, feeRecipient };
+  }
+
+  async function filledParlayFixture() {
+    const [maker, taker, buyer, other] = await ethers.getSigners();
+
+    const oracle = await ethers.deployContract("MockPolymarketOracle");
+    const { market, token } = await deployMarket(await oracle.getAddress());
+    const marketplace = await ethers.deployContract("ParlayTokenMarketplace", [await token.getAddress()]);
+
+    const { parlayId, resolutionDeadline } = await createParlay(market, maker);
+    await market.connect(taker).fillParlay(parlayId, STAKE, await market.getTermsHash(parlayId), [], { value: STAKE });
+    const [fill] = await market.getFills(parlayId);
+
+    return { market, token, marketplace, oracle, maker, taker, buyer, other, parlayId, fill, resolutionDeadline };
+  }
+
+  // Two-leg DropLegReprice parlay with both legs priced at 50% and a 1% protocol fee, filled in full
+  async function repricedParlay(makerStake: bigint, takerStake: bigint) {
+    const { market, oracle, maker, taker, feeRecipient } = await loadFixture(marketFixture);
+    await market.setProtocolFee(100);
+    await market.setFeeRecipient(feeRecipient.address);
+
+    const { parlayId } = await createParlay(market, maker, {
+      legs: [LEG, LEG_2],
+      makerStake,
+      takerStake,
+      voidPolicy: 2, // VoidPolicy.DropLegReprice
+      legProbabilitiesBps: [5000, 5000],
+    });
+    await market.connect(taker).fillParlay(parlayId, takerStake, await market.getTermsHash(parlayId), [], { value: takerStake });
+
+    return { market, oracle, maker, taker, feeRecipient, parlayId };
+  }
+
+  async function flareOracleFixture() {
+    const [owner, maker, taker] = await ethers.getSigners();
+
+    // FDC verification is never called by setOutcomeDirect, so any non-zero address will do
+    const oracle = await ethers.deployContract("FlarePolymarketOracle", [owner.address]);
+    const { market } = await deployMarket(await oracle.getAddress());
+    const { parlayId } = await createParlay(market, maker);
+
+    return { market, oracle, taker, parlayId };
+  }
+
+  describe("fills", function () {
+    it("matches maker stake pro rata and gives the last fill the rounding remainder", async function () {
+      const { market, oracle, maker, taker, other } = await loadFixture(marketFixture);
+      // 10 wei of maker stake against 3 wei of taker stake doesn't divide evenly
+      const { parlayId } = await createParlay(market, maker, { makerStake: 10n, takerStake: 3n });
+      const termsHash = await market.getTermsHash(parlayId);
+
+      await market.connect(taker).fillParlay(parlayId, 1n, termsHash, [], { value: 1n });
+      await market.connect(other).fillParlay(parlayId, 1n, termsHash, [], { value: 1n });
+      await expect(market.connect(taker).fillParlay(parlayId, 2n, termsHash, [], { value: 2n }))
+        .to.be.revertedWithCustomError(market, "ExceedsUnfilledAmount");
+      await expect(market.connect(taker).fillParlay(parlayId, 1n, termsHash, [], { value: 1n }))
+        .to.emit(market, "ParlayFilled");
+
+      const fills = await market.getFills(parlayId);
+      expect(fills.map((fill) => fill.makerStake)).to.deep.equal([3n, 3n, 4n]);
+      expect(fills.map((fill) => fill.taker)).to.deep.equal([taker.address, other.address, taker.address]);
+      const parlay = await market.getParlay(parlayId);
+      expect(parlay.status).to.equal(1); // ParlayStatus.Filled
+      expect(parlay.filledMakerStake).to.equal(10n);
+
+      // Each fill pays its own pot to the holder of its winning token
+      await oracle.setOutcome(LEG, NO);
+      await market.resolveParlay(parlayId);
+      expect(await market.pendingWithdrawals(taker.address)).to.equal(4n + 5n);
+      expect(await market.pendingWithdrawals(other.address)).to.equal(4n);
+    });
+
+    it("rejects fills while a leg's outcome is in its challenge period", async function () {
+      const { market, oracle, taker, parlayId } = await loadFixture(flareOracleFixture);
+      const termsHash = await market.getTermsHash(parlayId);
+
+      await oracle.setOutcomeDirect(LEG, YES);
+      expect(await oracle.isResolved(LEG)).to.equal(false);
+
+      await expect(
+        market.connect(taker).fillParlay(parlayId, STAKE, termsHash, [], { value: STAKE })
+      ).to.be.revertedWithCustomError(market, "LegOutcomeProposed");
+    });
+
+    it("rejects fills while a leg's outcome is disputed", async function () {
+      const { market, oracle, taker, parlayId } = await loadFixture(flareOracleFixture);
+      const termsHash = await market.getTermsHash(parlayId);
+
+      await oracle.setOutcomeDirect(LEG, YES);
+      await oracle.connect(taker).dispute(LEG, { value: await oracle.disputeBond() });
+
+      await expect(
+        market.connect(taker).fillParlay(parlayId, STAKE, termsHash, [], { value: STAKE })
+      ).to.be.revertedWithCustomError(market, "LegOutcomeProposed");
+    });
+  });
+
+  describe("signed orders", function () {
+    async function signedOrderFixture() {
+      const { market, maker, taker } = await loadFixture(marketFixture);
+      const collateral = await ethers.deployContract("MockERC20");
+      const collateralAddress = await collateral.getAddress();
+      await market.setCollateralToken(collateralAddress, true);
+
+      for (const signer of [maker, taker]) {
+        await collateral.mint(signer.address, STAKE * 10n);
+        await collateral.connect(signer).approve(await market.getAddress(), STAKE * 10n);
+      }
+
+      const expiry = (await time.latest()) + 86400;
+      const order = {
+        maker: maker.address,
+        name: "Signed parlay",
+        conditionIds: [LEG, LEG_2],
+        requiredOutcomes: [YES, NO],
+        legNames: ["Leg 1", "Leg 2"],
+        imageUrls: ["", ""],
+        collateralToken: collateralAddress,
+        makerStake: STAKE,
+        takerStake: STAKE * 2n,
+        expiry,
+        resolutionDeadline: expiry + 86400,
+        resolverBounty: 0n,
+        makerIsYes: false,
+        minCorrectLegs: 2,
+        voidPolicy: 2, // VoidPolicy.DropLegReprice
+        legProbabilitiesBps: [6000, 4000],
+        legFillDeadlines: [expiry, 0],
+        nonce: 1n,
+      };
+      // The same domain and types the app signs with, pointed at this deployment
+      const domain = {
+        name: "ParlayMarket",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await market.getAddress(),
+      };
+      const signature = await maker.signTypedData(domain, PARLAY_ORDER_TYPES, order);
+
+      return { market, collateral, maker, taker, order, domain, signature };
+    }
+
+    it("hashes orders the same way as the app's EIP-712 types", async function () {
+      const { market, order, domain } = await loadFixture(signedOrderFixture);
+
+      expect(await market.domainSeparator()).to.equal(ethers.TypedDataEncoder.hashDomain(domain));
+      expect(await market.hashOrder(order)).to.equal(ethers.TypedDataEncoder.hash(domain, PARLAY_ORDER_TYPES, order));
+    });
+
+    it("fills an app-signed order once, pulling both stakes", async function () {
+      const { market, collateral, maker, taker, order, domain, signature } = await loadFixture(signedOrderFixture);
+      const orderHash = ethers.TypedDataEncoder.hash(domain, PARLAY_ORDER_TYPES, order);
+
+      const fill = market.connect(taker).fillSignedOrder(order, signature);
+      await expect(fill).to.emit(market, "SignedOrderFilled").withArgs(orderHash, 0, maker.address, taker.address);
+      await expect(fill).to.changeTokenBalances(collateral, [maker, taker, market], [-STAKE, -STAKE * 2n, STAKE * 3n]);
+      expect(await market.isNonceValid(maker.address, order.nonce)).to.equal(false);
+
+      await expect(
+        market.connect(taker).fillSignedOrder(order, signature)
+      ).to.be.revertedWithCustomError(market, "OrderCancelledOrUsed");
+    });
+
+    it("rejects an order whose terms differ from what the maker signed", async function () {
+      const { market, taker, order, signature } = await loadFixture(signedOrderFixture);
+
+      await expect(
+        market.connect(taker).fillSignedOrder({ ...order, takerStake: STAKE }, signature)
+      ).to.be.revertedWithCustomError(market, "InvalidSignature");
+    });
+  });
+
+  describe("parlay types", function () {
+    it("lets YES win a k-of-n parlay with one failed leg", async function () {
+      const { market, oracle, maker, taker } = await loadFixture(marketFixture);
+      const { parlayId } = await createParlay(market, maker, { legs: [LEG, LEG_2, LEG_3], minCorrectLegs: 2 });
+      await market.connect(taker).fillParlay(parlayId, STAKE, await market.getTermsHash(parlayId), [], { value: STAKE });
+
+      await oracle.setOutcome(LEG, YES);
+      await oracle.setOutcome(LEG_2, NO);
+      await oracle.setOutcome(LEG_3, YES);
+      await expect(market.resolveParlay(parlayId)).to.emit(market, "ParlayResolved");
+
+      expect(await market.pendingWithdrawals(maker.address)).to.equal(STAKE * 2n);
+      expect(await market.pendingWithdrawals(taker.address)).to.equal(0);
+    });
+
+    it("lets NO win a k-of-n parlay once too many legs fail", async function () {
+      const { market, oracle, maker, taker } = await loadFixture(marketFixture);
+      const { parlayId } = await createParlay(market, maker, { legs: [LEG, LEG_2, LEG_3], minCorrectLegs: 2 });
+      await market.connect(taker).fillParlay(parlayId, STAKE, await market.getTermsHash(parlayId), [], { value: STAKE });
+
+      await oracle.setOutcome(LEG, NO);
+      await oracle.setOutcome(LEG_2, NO);
+      await oracle.setOutcome(LEG_3, YES);
+      await market.resolveParlay(parlayId);
+
+      expect(await market.pendingWithdrawals(taker.address)).to.equal(STAKE * 2n);
+      expect(await market.pendingWithdrawals(maker.address)).to.equal(0);
+    });
+
+    it("spawns one every-leg parlay per combination of a round robin", async function () {
+      const { market, maker } = await loadFixture(marketFixture);
+      const expiry = (await time.latest()) + 86400;
+
+      // C(3, 2) = 3 parlays, each escrowing its own maker stake
+      const create = market.connect(maker).createRoundRobin(
+        "Round robin",
+        [LEG, LEG_2, LEG_3],
+        [YES, YES, YES],
+        ["Leg 1", "Leg 2", "Leg 3"],
+        ["", "", ""],
+        ethers.ZeroAddress,
+        2,
+        STAKE,
+        STAKE,
+        expiry,
+        expiry + 86400,
+        0,
+        true,
+        0,
+        [],
+        [],
+        0,
+        { value: STAKE * 3n }
+      );
+      await expect(create).to.emit(market, "RoundRobinCreated").withArgs(1, maker.address, 2, [0, 1, 2]);
+      await expect(create).to.changeEtherBalances([maker, market], [-STAKE * 3n, STAKE * 3n]);
+
+      const legsByParlay = await Promise.all(
+        [0, 1, 2].map(async (parlayId) => (await market.getParlay(parlayId)).conditionIds)
+      );
+      expect(legsByParlay).to.deep.equal([[LEG, LEG_2], [LEG, LEG_3], [LEG_2, LEG_3]]);
+      for (const parlayId of [0, 1, 2]) {
+        const [minCorrectLegs, roundRobinId] = await market.getParlayType(parlayId);
+        expect(minCorrectLegs).to.equal(2);
+        expect(roundRobinId).to.equal(1);
+      }
+    });
+
+    it("rejects a round robin with the wrong total maker stake", async function () {
+      const { market, maker } = await loadFixture(marketFixture);
+      const expiry = (await time.latest()) + 86400;
+
+      await expect(
+        market.connect(maker).createRoundRobin(
+          "Round robin",
+          [LEG, LEG_2, LEG_3],
+          [YES, YES, YES],
+          ["Leg 1", "Leg 2", "Leg 3"],
+          ["", "", ""],
+          ethers.ZeroAddress,
+          2,
+          STAKE,
+          STAKE,
+          expiry,
+          expiry + 86400,
+          0,
+          true,
+          0,
+          [],
+          [],
+          0,
+          { value: STAKE }
+        )
+      ).to.be.revertedWithCustomError(market, "IncorrectStakeAmount");
+    });
+  });
+
+  describe("early settlement", function () {
+    it("settles for NO as soon as a failed leg rules YES out", async function () {
+      const { market, oracle, maker, taker, other } = await loadFixture(marketFixture);
+      const { parlayId } = await createParlay(market, maker, { legs: [LEG, LEG_2] });
+      await market.connect(taker).fillParlay(parlayId, STAKE, await market.getTermsHash(parlayId), [], { value: STAKE });
+
+      await oracle.setOutcome(LEG, NO);
+      await expect(market.connect(other).settleEarly(parlayId)).to.emit(market, "ParlaySettledEarly").withArgs(parlayId);
+
+      expect(await market.pendingWithdrawals(taker.address)).to.equal(STAKE * 2n);
+      expect(await market.pendingWithdrawals(maker.address)).to.equal(0);
+      expect((await market.getParlay(parlayId)).status).to.equal(2); // ParlayStatus.Resolved
+    });
+
+    it("waits while a k-of-n parlay can still reach its threshold", async function () {
+      const { market, oracle, maker, taker } = await loadFixture(marketFixture);
+      const { parlayId } = await createParlay(market, maker, { legs: [LEG, LEG_2, LEG_3], minCorrectLegs: 2 });
+      await market.connect(taker).fillParlay(parlayId, STAKE, await market.getTermsHash(parlayId), [], { value: STAKE });
+
+      await oracle.setOutcome(LEG, NO);
+      await expect(market.settleEarly(parlayId)).to.be.revertedWithCustomError(market, "YesCanStillWin");
+
+      await oracle.setOutcome(LEG_2, NO);
+      await expect(market.settleEarly(parlayId)).to.emit(market, "ParlaySettledEarly");
+    });
+
+    it("leaves a void leg under RefundAll to resolveParlay", async function () {
+      const { market, oracle, maker, taker } = await loadFixture(marketFixture);
+      const { parlayId } = await createParlay(market, maker, { legs: [LEG, LEG_2] });
+      await market.connect(taker).fillParlay(parlayId, STAKE, await market.getTermsHash(parlayId), [], { value: STAKE });
+
+      await oracle.setOutcome(LEG, NO);
+      await oracle.setOutcome(LEG_2, INVALID);
+      await expect(market.settleEarly(parlayId)).to.be.revertedWithCustomError(market, "VoidLegRefundsParlay");
+    });
+  });
+
+  describe("counter-offers", function () {
+    it("only takes counters on a private parlay from its allowed taker", async function () {
+      const { market, maker, taker, other } = await loadFixture(marketFixture);
+      const { parlayId } = await createParlay(market, maker, { allowedTaker: taker.address });
+
+      await expect(
+        market.connect(other).proposeCounter(parlayId, STAKE * 2n, [], { value: STAKE * 2n })
+      ).to.be.revertedWithCustomError(market, "NotAllowedTaker");
+      await expect(market.connect(taker).proposeCounter(parlayId, STAKE * 2n, [], { value: STAKE * 2n }))
+        .to.emit(market, "CounterProposed")
+        .withArgs(parlayId, 0, taker.address, STAKE * 2n);
+    });
+
+    it("fills the rest of the parlay at the countered odds when the maker accepts", async function () {
+      const { market, maker, taker, other } = await loadFixture(marketFixture);
+      const { parlayId } = await createParlay(market, maker, { makerStake: STAKE * 2n, takerStake: STAKE * 2n });
+      await market.connect(other).fillParlay(parlayId, STAKE, await market.getTermsHash(parlayId), [], { value: STAKE });
+
+      // Half the maker stake is left; the taker offers 3 for it instead of 1
+      await market.connect(taker).proposeCounter(parlayId, STAKE * 3n, [], { value: STAKE * 3n });
+      await expect(market.connect(taker).acceptCounter(parlayId, 0)).to.be.revertedWithCustomError(market, "OnlyMakerCanAccept");
+      await expect(market.connect(maker).acceptCounter(parlayId, 0))
+        .to.emit(market, "CounterAccepted")
+        .withArgs(parlayId, 0, taker.address, STAKE * 3n);
+
+      const fills = await market.getFills(parlayId);
+      expect(fills[0].makerStake).to.equal(STAKE);
+      expect(fills[1].taker).to.equal(taker.address);
+      expect(fills[1].takerStake).to.equal(STAKE * 3n);
+      expect(fills[1].makerStake).to.equal(STAKE);
+      const parlay = await market.getParlay(parlayId);
+      expect(parlay.status).to.equal(1); // ParlayStatus.Filled
+      expect(parlay.takerStake).to.equal(STAKE * 4n);
+      expect((await market.getCounters(parlayId))[0].status).to.equal(1); // CounterStatus.Accepted
+    });
+
+    it("keeps a counter's stake escrowed until it times out", async function () {
+      const { market, maker, taker } = await loadFixture(marketFixture);
+      const { parlayId } = await createParlay(market, maker);
+      await market.connect(taker).proposeCounter(parlayId, STAKE * 2n, [], { value: STAKE * 2n });
+
+      await expect(market.connect(taker).refundCounter(parlayId, 0)).to.be.revertedWithCustomError(market, "CounterStillLocked");
+
+      await time.increase(await market.COUNTER_TIMEOUT());
+      await expect(market.connect(taker).refundCounter(parlayId, 0))
+        .to.emit(market, "CounterRefunded")
+        .withArgs(parlayId, 0, taker.address, STAKE * 2n);
+      expect(await market.pendingWithdrawals(taker.address)).to.equal(STAKE * 2n);
+      await expect(market.connect(maker).acceptCounter(parlayId, 0)).to.be.revertedWithCustomError(market, "CounterNotOpen");
+    });
+
+    it("lapses a counter once a fill changes the unmatched maker stake", async function () {
+      const { market, maker, taker, other } = await loadFixture(marketFixture);
+      const { parlayId } = await createParlay(market, maker, { takerStake: STAKE * 2n });
+      await market.connect(taker).proposeCounter(parlayId, STAKE, [], { value: STAKE });
+      await market.connect(other).fillParlay(parlayId, STAKE, await market.getTermsHash(parlayId), [], { value: STAKE });
+
+      await expect(market.connect(maker).acceptCounter(parlayId, 0)).to.be.revertedWithCustomError(market, "CounterTermsChanged");
+      await expect(market.connect(taker).refundCounter(parlayId, 0)).to.emit(market, "CounterRefunded");
+    });
+  });
+
+  describe("updates", function () {
+    it("changes the terms hash so fills quoting the old terms revert", async function () {
+      const { market, maker, taker } = await loadFixture(marketFixture);
+      const { parlayId, expiry } = await createParlay(market, maker);
+      const oldTermsHash = await market.getTermsHash(parlayId);
+
+      await market.connect(maker).updateParlay(parlayId, STAKE, STAKE * 2n, expiry + 3600);
+
+      const termsHash = await market.getTermsHash(parlayId);
+      expect(termsHash).to.equal(ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "uint256", "uint256"], [STAKE, STAKE * 2n, expiry + 3600])
+      ));
+      await expect(
+        market.connect(taker).fillParlay(parlayId, STAKE * 2n, oldTermsHash, [], { value: STAKE * 2n })
+      ).to.be.revertedWithCustomError(market, "TermsChanged");
+      await expect(market.connect(taker).fillParlay(parlayId, STAKE * 2n, termsHash, [], { value: STAKE * 2n }))
+        .to.emit(market, "ParlayFilled");
+    });
+
+    it("collects a maker stake top-up and credits a reduction", async function () {
+      const { market, maker } = await loadFixture(marketFixture);
+      const { parlayId, expiry } = await createParlay(market, maker);
+
+      await expect(
+        market.connect(maker).updateParlay(parlayId, STAKE * 3n, STAKE, expiry, { value: STAKE })
+      ).to.be.revertedWithCustomError(market, "IncorrectStakeAmount");
+      await expect(market.connect(maker).updateParlay(parlayId, STAKE * 3n, STAKE, expiry, { value: STAKE * 2n }))
+        .to.changeEtherBalances([maker, market], [-STAKE * 2n, STAKE * 2n]);
+
+      await expect(
+        market.connect(maker).updateParlay(parlayId, STAKE * 2n, STAKE, expiry, { value: 1n })
+      ).to.be.revertedWithCustomError(market, "IncorrectStakeAmount");
+      await market.connect(maker).updateParlay(parlayId, STAKE * 2n, STAKE, expiry);
+      expect(await market.pendingWithdrawals(maker.address)).to.equal(STAKE);
+      expect((await market.getParlay(parlayId)).makerStake).to.equal(STAKE * 2n);
+    });
+
+    it("prices only the unfilled remainder of a partially filled parlay", async function () {
+      const { market, maker, taker, other } = await loadFixture(marketFixture);
+      const { parlayId, expiry } = await createParlay(market, maker, { makerStake: STAKE * 2n, takerStake: STAKE * 2n });
+      await market.connect(taker).fillParlay(parlayId, STAKE, await market.getTermsHash(parlayId), [], { value: STAKE });
+
+      await expect(
+        market.connect(maker).updateParlay(parlayId, STAKE, STAKE * 2n, expiry)
+      ).to.be.revertedWithCustomError(market, "StakeBelowFilled");
+
+      // The remaining 1 of maker stake is now offered against 3 of taker stake
+      await market.connect(maker).updateParlay(parlayId, STAKE * 2n, STAKE * 4n, expiry);
+      await market.connect(other).fillParlay(parlayId, STAKE * 3n, await market.getTermsHash(parlayId), [], { value: STAKE * 3n });
+
+      const fills = await market.getFills(parlayId);
+      expect(fills.map((fill) => [fill.takerStake, fill.makerStake])).to.deep.equal([[STAKE, STAKE], [STAKE * 3n, STAKE]]);
+    });
+  });
+
+  describe("void leg repricing", function () {
+    it("shrinks the NO stake to the repriced pot and refunds the rest", async function () {
+      // YES at 1 against NO at 3 prices both legs at 50%; voiding one leaves a 2 pot for a 50% bet
+      const { market, oracle, maker, taker, feeRecipient, parlayId } = await repricedParlay(STAKE, STAKE * 3n);
+
+      await oracle.setOutcome(LEG, INVALID);
+      await oracle.setOutcome(LEG_2, YES);
+      await expect(market.resolveParlay(parlayId))
+        .to.emit(market, "PositionRepriced")
+        .withArgs(parlayId, 0, STAKE * 2n);
+
+      const fee = (STAKE * 2n) / 100n;
+      expect(await market.pendingWithdrawals(taker.address)).to.equal(STAKE * 2n);
+      expect(await market.pendingWithdrawals(maker.address)).to.equal(STAKE * 2n - fee);
+      expect(await market.pendingWithdrawals(feeRecipient.address)).to.equal(fee);
+    });
+
+    it("refunds both stakes without a fee when YES alone covers the repriced pot", async function () {
+      // YES at 3 against NO at 1; voiding a 50% leg reprices the pot to 2, below the YES stake
+      const { market, oracle, maker, taker, feeRecipient, parlayId } = await repricedParlay(STAKE * 3n, STAKE);
+
+      await oracle.setOutcome(LEG, INVALID);
+      await oracle.setOutcome(LEG_2, YES);
+      await expect(market.resolveParlay(parlayId))
+        .to.emit(market, "PositionRepriced")
+        .withArgs(parlayId, 0, STAKE)
+        .and.to.emit(market, "ParlayResolved");
+
+      expect(await market.pendingWithdrawals(maker.address)).to.equal(STAKE * 3n);
+      expect(await market.pendingWithdrawals(taker.address)).to.equal(STAKE);
+      expect(await market.pendingWithdrawals(feeRecipient.address)).to.equal(0);
+    });
+  });
+
+  describe("invalid refunds", function () {
+    it("refunds each side to the current holder of its token", async function () {
+      const { market, token, marketplace, oracle, maker, taker, buyer, parlayId, fill } = await loadFixture(filledParlayFixture);
+
+      // Taker sells the NO position before the leg resolves
+      const price = ethers.parseEther("0.5");
+      await token.connect(taker).approve(await marketplace.getAddress(), fill.noTokenId);
+      await marketplace.connect(taker).listPosition(fill.noTokenId, price, (await time.latest()) + 3600);
+      await marketplace.connect(buyer).buyPosition(fill.noTokenId, { value: price });
+
+      await oracle.setOutcome(LEG, INVALID);
+      await expect(market.resolveParlay(parlayId)).to.emit(market, "ParlayInvalidated").withArgs(parlayId);
+
+      expect(await market.pendingWithdrawals(buyer.address)).to.equal(STAKE);
+      expect(await market.pendingWithdrawals(taker.address)).to.equal(0);
+      expect(await market.pendingWithdrawals(maker.address)).to.equal(STAKE);
+      await expect(token.ownerOf(fill.noTokenId)).to.be.reverted;
+    });
+  });
+
+  describe("stale refunds", function () {
+    it("lets the holder of a transferred token refund and pays them", async function () {
+      const { market, token, maker, taker, buyer, parlayId, fill, resolutionDeadline } = await loadFixture(filledParlayFixture);
+
+      await token.connect(taker).transferFrom(taker.address, buyer.address, fill.noTokenId);
+      await time.increaseTo(resolutionDeadline + 1);
+
+      await expect(market.connect(taker).refundStale(parlayId)).to.be.revertedWithCustomError(market, "OnlyMakerOrHolder");
+      await expect(market.connect(buyer).refundStale(parlayId))
+        .to.emit(market, "StaleParlayRefunded")
+        .withArgs(parlayId, buyer.address);
+
+      expect(await market.pendingWithdrawals(buyer.address)).to.equal(STAKE);
+      expect(await market.pendingWithdrawals(taker.address)).to.equal(0);
+      expect(await market.pendingWithdrawals(maker.address)).to.equal(STAKE);
+    });
+
+    it("rejects callers that hold none of its positions", async function () {
+      const { market, other, parlayId, resolutionDeadline } = await loadFixture(filledParlayFixture);
+
+      await time.increaseTo(resolutionDeadline + 1);
+
+      await expect(market.connect(other).refundStale(parlayId)).to.be.revertedWithCustomError(market, "OnlyMakerOrHolder");
+    });
+
+    it("rejects refunds once the legs have decided the parlay", async function () {
+      const { market, oracle, maker, taker, parlayId, resolutionDeadline } = await loadFixture(filledParlayFixture);
+
+      await oracle.setOutcome(LEG, YES);
+      await time.increaseTo(resolutionDeadline + 1);
+
+      await expect(market.connect(taker).refundStale(parlayId)).to.be.revertedWithCustomError(market, "ParlayAlreadyDecided");
+      await expect(market.resolveParlay(parlayId)).to.emit(market, "ParlayResolved");
+      expect(await market.pendingWithdrawals(maker.address)).to.be.greaterThan(STAKE);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { PARLAY_TOKEN_PERMIT_TYPES } from "../lib/contracts";
+
+const STAKE = ethers.parseEther("1");
+const LEG = ethers.id("leg-1");
+
+describe("ParlayToken", function () {
+  async function positionFixture() {
+    const [maker, taker, spender, operator, other] = await ethers.getSigners();
+
+    const oracle = await ethers.deployContract("MockPolymarketOracle");
+    const renderer = await ethers.deployContract("ParlayTokenRenderer");
+    const market = await ethers.deployContract("ParlayMarket", [await oracle.getAddress(), await renderer.getAddress()]);
+    const token = await ethers.getContractAt("ParlayToken", await market.parlayToken());
+
+    const expiry = (await time.latest()) + 86400;
+    await market.connect(maker).createParlay(
+      "Test parlay",
+      [LEG],
+      [1],
+      ["Leg 1"],
+      [""],
+      ethers.ZeroAddress,
+      STAKE,
+      STAKE,
+      expiry,
+      expiry + 86400,
+      0,
+      true,
+      1,
+      0,
+      [],
+      [],
+      ethers.ZeroAddress,
+      ethers.ZeroHash,
+      0,
+      { value: STAKE }
+    );
+    await market.connect(taker).fillParlay(0, STAKE, await market.getTermsHash(0), [], { value: STAKE });
+    const [fill] = await market.getFills(0);
+    const tokenId = fill.noTokenId;
+
+    // The same domain and types the app signs permits with, pointed at this deployment
+    const domain = {
+      name: "ParlayMarket Position",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await token.getAddress(),
+    };
+    const signPermit = async (signer: HardhatEthersSigner, nonce: bigint, deadline: number) =>
+      signer.signTypedData(domain, PARLAY_TOKEN_PERMIT_TYPES, { spender: spender.address, tokenId, nonce, deadline });
+
+    return { token, taker, spender, operator, other, tokenId, domain, signPermit };
+  }
+
+  describe("permits", function () {
+    it("approves the spender from the owner's signature and bumps the nonce", async function () {
+      const { token, taker, spender, other, tokenId, domain, signPermit } = await loadFixture(positionFixture);
+      const deadline = (await time.latest()) + 3600;
+
+      expect(await token.DOMAIN_SEPARATOR()).to.equal(ethers.TypedDataEncoder.hashDomain(domain));
+      expect(await token.nonces(tokenId)).to.equal(0);
+
+      const sig = await signPermit(taker, 0n, deadline);
+      await expect(token.connect(other).permit(spender.address, tokenId, deadline, sig))
+        .to.emit(token, "Approval")
+        .withArgs(taker.address, spender.address, tokenId);
+      expect(await token.getApproved(tokenId)).to.equal(spender.address);
+      expect(await token.nonces(tokenId)).to.equal(1);
+
+      // The signature was for nonce 0, so it can't be replayed
+      await expect(
+        token.permit(spender.address, tokenId, deadline, sig)
+      ).to.be.revertedWithCustomError(token, "InvalidPermitSignature");
+    });
+
+    it("rejects expired permits", async function () {
+      const { token, taker, spender, tokenId, signPermit } = await loadFixture(positionFixture);
+      const deadline = (await time.latest()) + 60;
+      const sig = await signPermit(taker, 0n, deadline);
+
+      await time.increaseTo(deadline + 1);
+
+      await expect(
+        token.permit(spender.address, tokenId, deadline, sig)
+      ).to.be.revertedWithCustomError(token, "PermitExpired");
+    });
+
+    it("accepts permits from approved-for-all operators but not from other accounts", async function () {
+      const { token, taker, spender, operator, other, tokenId, signPermit } = await loadFixture(positionFixture);
+      const deadline = (await time.latest()) + 3600;
+
+      await expect(
+        token.permit(spender.address, tokenId, deadline, await signPermit(other, 0n, deadline))
+      ).to.be.revertedWithCustomError(token, "InvalidPermitSignature");
+
+      await token.connect(taker).setApprovalForAll(operator.address, true);
+      await token.permit(spender.address, tokenId, deadline, await signPermit(operator, 0n, deadline));
+      expect(await token.getApproved(tokenId)).to.equal(spender.address);
+    });
+
+    it("voids outstanding permits when the token is transferred", async function () {
+      const { token, taker, spender, other, tokenId, signPermit } = await loadFixture(positionFixture);
+      const deadline = (await time.latest()) + 3600;
+      const sig = await signPermit(taker, 0n, deadline);
+
+      await token.connect(taker).transferFrom(taker.address, other.address, tokenId);
+      expect(await token.nonces(tokenId)).to.equal(1);
+
+      // Even after the token comes back, the old signature is for a spent nonce
+      await token.connect(other).transferFrom(other.address, taker.address, tokenId);
+      expect(await token.nonces(tokenId)).to.equal(2);
+      await expect(
+        token.permit(spender.address, tokenId, deadline, sig)
+      ).to.be.revertedWithCustomError(token, "InvalidPermitSignature");
+    });
+  });
+});
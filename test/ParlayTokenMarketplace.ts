@@ -0,0 +1,76 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+const STAKE = ethers.parseEther("1");
+const PRICE = ethers.parseEther("0.5");
+const LEG = ethers.id("leg-1");
+
+describe("ParlayTokenMarketplace", function () {
+  async function listedPositionFixture() {
+    const [maker, taker, buyer, friend] = await ethers.getSigners();
+
+    const oracle = await ethers.deployContract("MockPolymarketOracle");
+    const renderer = await ethers.deployContract("ParlayTokenRenderer");
+    const market = await ethers.deployContract("ParlayMarket", [await oracle.getAddress(), await renderer.getAddress()]);
+    const token = await ethers.getContractAt("ParlayToken", await market.parlayToken());
+    const marketplace = await ethers.deployContract("ParlayTokenMarketplace", [await token.getAddress()]);
+
+    const expiry = (await time.latest()) + 86400;
+    await market.connect(maker).createParlay(
+      "Test parlay",
+      [LEG],
+      [1],
+      ["Leg 1"],
+      [""],
+      ethers.ZeroAddress,
+      STAKE,
+      STAKE,
+      expiry,
+      expiry + 86400,
+      0,
+      true,
+      1,
+      0,
+      [],
+      [],
+      ethers.ZeroAddress,
+      ethers.ZeroHash,
+      0,
+      { value: STAKE }
+    );
+    await market.connect(taker).fillParlay(0, STAKE, await market.getTermsHash(0), [], { value: STAKE });
+    const [fill] = await market.getFills(0);
+    const tokenId = fill.noTokenId;
+
+    await token.connect(taker).setApprovalForAll(await marketplace.getAddress(), true);
+    await marketplace.connect(taker).listPosition(tokenId, PRICE, expiry);
+
+    return { token, marketplace, taker, buyer, friend, tokenId };
+  }
+
+  it("sells a listed position to the buyer", async function () {
+    const { token, marketplace, taker, buyer, tokenId } = await loadFixture(listedPositionFixture);
+
+    await expect(marketplace.connect(buyer).buyPosition(tokenId, { value: PRICE }))
+      .to.emit(marketplace, "PositionSold")
+      .withArgs(tokenId, taker.address, buyer.address, PRICE);
+    expect(await token.ownerOf(tokenId)).to.equal(buyer.address);
+  });
+
+  it("does not revive a listing when the token comes back to the seller", async function () {
+    const { token, marketplace, taker, buyer, friend, tokenId } = await loadFixture(listedPositionFixture);
+
+    await token.connect(taker).transferFrom(taker.address, friend.address, tokenId);
+    await token.connect(friend).transferFrom(friend.address, taker.address, tokenId);
+
+    expect(await marketplace.isListingActive(tokenId)).to.equal(false);
+    await expect(
+      marketplace.connect(buyer).buyPosition(tokenId, { value: PRICE })
+    ).to.be.revertedWithCustomError(marketplace, "ListingStale");
+
+    // A fresh listing by the returning owner is buyable again
+    await marketplace.connect(taker).listPosition(tokenId, PRICE, (await time.latest()) + 3600);
+    expect(await marketplace.isListingActive(tokenId)).to.equal(true);
+  });
+});